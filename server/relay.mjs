@@ -0,0 +1,267 @@
+// Relay for networked co-op: pairs browsers into rooms and passes their
+// messages along. It knows nothing about the game; the host's browser runs
+// the simulation and everyone else mirrors it. No dependencies, so any
+// machine on the LAN with Node can run it:
+//
+//   npm run relay            (or: node server/relay.mjs [port])
+//
+// Protocol (JSON text frames):
+//   client -> relay  { type: "create" }
+//                    { type: "join", room }
+//                    { type: "relay", payload }   passed to the rest of the room
+//   relay -> client  { type: "joined", room, seat }   seat 0 is the host
+//                    { type: "peerJoined", seat } / { type: "peerLeft", seat }
+//                    { type: "relay", from, payload }
+//                    { type: "error", message }
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import { networkInterfaces } from "node:os";
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+// Host plus one guest, like local co-op
+const ROOM_SIZE = 2;
+// Room codes skip letters that are easy to misread
+const CODE_LETTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+const CODE_LENGTH = 4;
+// Snapshots are a few kilobytes; anything this big is a mistake
+const MAX_MESSAGE_BYTES = 1 << 20;
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+};
+
+// code -> seats (null where someone left)
+const rooms = new Map();
+
+const newRoomCode = () => {
+  let code;
+  do {
+    code = Array.from(
+      { length: CODE_LENGTH },
+      () => CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)]
+    ).join("");
+  } while (rooms.has(code));
+  return code;
+};
+
+// Frame a payload. Server frames are never masked.
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pull the first complete frame off the front of `buffer`, or null if it
+// hasn't all arrived yet. Client frames are always masked.
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null;
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_MESSAGE_BYTES) throw new Error("Frame too large");
+  const maskBytes = masked ? 4 : 0;
+  if (buffer.length < offset + maskBytes + length) return null;
+  const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+  const payload = Buffer.from(
+    buffer.subarray(offset + maskBytes, offset + maskBytes + length)
+  );
+  if (mask) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+  }
+  return { fin, opcode, payload, size: offset + maskBytes + length };
+};
+
+const send = (client, message) => {
+  if (client.socket.writable) {
+    client.socket.write(
+      encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message)))
+    );
+  }
+};
+
+const others = (client) =>
+  (rooms.get(client.room) ?? []).filter(
+    (other) => other !== null && other !== client
+  );
+
+const sit = (client, room, seat) => {
+  client.room = room;
+  client.seat = seat;
+  send(client, { type: "joined", room, seat });
+  for (const other of others(client)) {
+    send(other, { type: "peerJoined", seat });
+  }
+};
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    send(client, { type: "error", message: "Malformed message" });
+    return;
+  }
+
+  if (message.type === "relay") {
+    if (client.room === null) return;
+    for (const other of others(client)) {
+      send(other, {
+        type: "relay",
+        from: client.seat,
+        payload: message.payload,
+      });
+    }
+  } else if (message.type === "create" && client.room === null) {
+    const room = newRoomCode();
+    rooms.set(room, [client]);
+    sit(client, room, 0);
+  } else if (message.type === "join" && client.room === null) {
+    const room = String(message.room ?? "").toUpperCase();
+    const seats = rooms.get(room);
+    if (!seats) {
+      send(client, { type: "error", message: `No room ${room}` });
+      return;
+    }
+    // Guests fill empty seats; the host's seat dies with the host
+    const seat = seats.findIndex((other, i) => i > 0 && other === null);
+    if (seat === -1 && seats.length >= ROOM_SIZE) {
+      send(client, { type: "error", message: `Room ${room} is full` });
+      return;
+    }
+    if (seat === -1) {
+      seats.push(client);
+      sit(client, room, seats.length - 1);
+    } else {
+      seats[seat] = client;
+      sit(client, room, seat);
+    }
+  }
+};
+
+const leave = (client) => {
+  if (client.room === null) return;
+  const seats = rooms.get(client.room);
+  const { room, seat } = client;
+  client.room = null;
+  if (!seats) return;
+  seats[seat] = null;
+  for (const other of seats) {
+    if (other !== null) send(other, { type: "peerLeft", seat });
+  }
+  // A room without its host is over
+  if (seat === 0 || seats.every((other) => other === null)) {
+    rooms.delete(room);
+  }
+};
+
+const accept = (socket) => {
+  const client = { socket, room: null, seat: -1 };
+  let buffered = Buffer.alloc(0);
+  // Text split over continuation frames, gathered until the final one
+  let fragments = [];
+
+  socket.on("data", (chunk) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    try {
+      let frame;
+      while ((frame = decodeFrame(buffered))) {
+        buffered = buffered.subarray(frame.size);
+        if (frame.opcode === OPCODES.close) {
+          socket.end(encodeFrame(OPCODES.close, Buffer.alloc(0)));
+          return;
+        }
+        if (frame.opcode === OPCODES.ping) {
+          socket.write(encodeFrame(OPCODES.pong, frame.payload));
+          continue;
+        }
+        if (
+          frame.opcode !== OPCODES.text &&
+          frame.opcode !== OPCODES.continuation
+        ) {
+          continue;
+        }
+        fragments.push(frame.payload);
+        if (frame.fin) {
+          handleMessage(client, Buffer.concat(fragments).toString("utf8"));
+          fragments = [];
+        }
+      }
+    } catch {
+      socket.destroy();
+    }
+  });
+  // The HTTP server leaves upgraded sockets half-open; finish the close
+  socket.on("end", () => socket.end());
+  socket.on("close", () => leave(client));
+  socket.on("error", () => socket.destroy());
+};
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("Office Rage relay: connect over WebSocket\n");
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const acceptKey = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${acceptKey}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+  socket.setNoDelay(true);
+  accept(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Relay listening on port ${PORT}. Players on the LAN can use:`);
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (address.family === "IPv4" && !address.internal) {
+        console.log(`  ws://${address.address}:${PORT}`);
+      }
+    }
+  }
+  console.log(`  ws://localhost:${PORT} (this machine)`);
+});
@@ -4,33 +4,190 @@ import { GameHUD } from "./GameHUD";
 import { GameInstructions } from "./GameInstructions";
 import { GameOver } from "./GameOver";
 import { GameTitle } from "./GameTitle";
+import { LevelComplete } from "./LevelComplete";
 import { Button } from "./ui/button";
 import newspaperHeader from "@/assets/newspaper-header.jpeg";
+import {
+  AUDIO_BUSES,
+  AudioBus,
+  BusVolumes,
+  DEFAULT_BUS_VOLUMES,
+} from "@/game/audio";
+import { VERSUS_ROUND_TIME, WORKDAY_BONUS_PER_MINUTE } from "@/game/constants";
+import {
+  cleanInitials,
+  currentStreak,
+  dailyShift,
+  DailyProfile,
+  playedToday,
+  recordAttempt,
+} from "@/game/daily";
+import { DEFAULT_MAZE_GENERATOR } from "@/game/generators";
+import { LevelFile } from "@/game/level";
+import { NetSession } from "@/game/network";
+import { PowerUpType } from "@/game/powerups";
+import { parseSeed, randomSeed } from "@/game/random";
+import { Replay } from "@/game/replay";
+import {
+  ComboState,
+  FloorSummary,
+  GameState,
+  InventorySlot,
+  ObjectiveProgress,
+} from "@/game/types";
+import { WORKDAY_MINUTES } from "@/game/workday";
 
-export interface GameState {
-  score: number;
-  lives: number;
-  level: number;
-  isGameOver: boolean;
-  isPaused: boolean;
+// A timed power-up effect a player has running, for the HUD
+export interface ActiveEffect {
+  // Index into world.players
+  player: number;
+  powerUp: PowerUpType;
+  // Seconds the effect lasts from pickup
+  duration: number;
+  // Changes on every pickup so a refreshed effect restarts its timer bar
+  key: number;
 }
 
+// HR pardons can't stack a pool of lives beyond this
+const MAX_LIVES = 5;
+
+const STARTING_LIVES = 3;
+
+// Who's playing: one player; two in local co-op, either sharing one pool of
+// lives or each keeping their own; or, in versus, one player vandalizing
+// while player two steers an executive
+export type PlayMode = "solo" | "shared" | "separate" | "versus";
+
+// Players in the world; player two in versus is at the wheel of an executive
+const playerCount = (mode: PlayMode) =>
+  mode === "shared" || mode === "separate" ? 2 : 1;
+
+// How a recorded run was played, for watching it back
+const replayMode = (replay: Replay): PlayMode => {
+  if (replay.versus) return "versus";
+  if (replay.players < 2) return "solo";
+  return replay.sharedLives ? "shared" : "separate";
+};
+
+// State at the start of a run: nothing scored and every pool of lives full
+const newRunState = (
+  level: number,
+  mode: PlayMode,
+  isPaused: boolean
+): GameState => ({
+  score: 0,
+  playerScores: Array(playerCount(mode)).fill(0),
+  lives: Array(mode === "separate" ? 2 : 1).fill(STARTING_LIVES),
+  level,
+  isGameOver: false,
+  isPaused,
+  isLevelComplete: false,
+  bestCombo: 0,
+});
+
+// The 9-to-5 mode's run is over, either at 5 PM or when HR gets there
+// first, with a bonus for every office minute survived
+const clockOut = (state: GameState, minutes: number): GameState => ({
+  ...state,
+  score: state.score + minutes * WORKDAY_BONUS_PER_MINUTE,
+  isGameOver: true,
+});
+
 interface HighScoreEntry {
   name: string;
   score: number;
 }
 
-export const Game = () => {
-  const [gameState, setGameState] = useState<GameState>({
-    score: 0,
-    lives: 3,
-    level: 1,
-    isGameOver: false,
-    isPaused: true, // start paused behind the title screen
-  });
-  // Base seniority level chosen from the title screen; score adds on top of this.
-  const [baseLevel, setBaseLevel] = useState(1);
+// Best scores on one day's Daily Shift
+interface DailyBoard {
+  date: string;
+  scores: HighScoreEntry[];
+}
+
+// The Daily Shift being played: whose attempt it is, the day it's for, and
+// whether it counts. Once a scored attempt is over, `rank` is its place on
+// that day's table (null if it didn't make it).
+interface DailyRun {
+  profile: string;
+  date: string;
+  scored: boolean;
+  rank?: number | null;
+}
+
+const DAILY_TABLE_SIZE = 5;
+
+interface GameProps {
+  // Hand-authored level to play instead of the title screen's layouts (set
+  // when playtesting from the level editor)
+  customLevel?: LevelFile | null;
+  // Networked co-op session from the lobby. Hosts play as usual with the
+  // guest as player two; guests follow the host's game.
+  net?: NetSession | null;
+}
+
+const VOLUMES_STORAGE_KEY = "officeRageVolumes";
+const DAILY_SCORES_STORAGE_KEY = "officeRageDailyScores";
+const DAILY_PROFILES_STORAGE_KEY = "officeRageDailyProfiles";
+
+export const Game = ({ customLevel = null, net = null }: GameProps) => {
+  const isGuest = net !== null && !net.isHost;
+  // Start paused behind the title screen
+  const [gameState, setGameState] = useState<GameState>(() =>
+    newRunState(1, "solo", true)
+  );
+  // Who's playing the run in progress
+  const [mode, setMode] = useState<PlayMode>("solo");
+  // Whole seconds left on a versus round's clock; null outside versus
+  const [roundClock, setRoundClock] = useState<number | null>(null);
+  // Whether the run in progress is a 9-to-5 workday, and its office clock
+  // in minutes since 9 AM (null outside the mode)
+  const [workday, setWorkday] = useState(false);
+  const [officeClock, setOfficeClock] = useState<number | null>(null);
+  // Each player's combo in progress, as last reported by the simulation
+  const [combos, setCombos] = useState<ComboState[]>([]);
+  const [effects, setEffects] = useState<ActiveEffect[]>([]);
+  // The current floor's objectives, as last reported by the simulation
+  const [objectives, setObjectives] = useState<ObjectiveProgress[]>([]);
+  // Each player's hotbar, as last reported by the simulation
+  const [inventories, setInventories] = useState<InventorySlot[][]>([]);
+  // Set while the level-complete summary is up
+  const [levelSummary, setLevelSummary] = useState<FloorSummary | null>(null);
+  // Score when the current floor started, for the summary's floor damage
+  const [floorStartScore, setFloorStartScore] = useState(0);
   const [soundEnabled, setSoundEnabled] = useState(true);
+  // Mixer volumes for the SFX, music and UI buses, remembered between visits
+  const [volumes, setVolumes] = useState<BusVolumes>(() => {
+    if (typeof window === "undefined") return DEFAULT_BUS_VOLUMES;
+    try {
+      const stored = window.localStorage.getItem(VOLUMES_STORAGE_KEY);
+      if (!stored) return DEFAULT_BUS_VOLUMES;
+      const parsed = JSON.parse(stored) as Partial<BusVolumes>;
+      const loaded = { ...DEFAULT_BUS_VOLUMES };
+      for (const bus of AUDIO_BUSES) {
+        const value = parsed?.[bus];
+        if (typeof value === "number" && value >= 0 && value <= 1) {
+          loaded[bus] = value;
+        }
+      }
+      return loaded;
+    } catch {
+      return DEFAULT_BUS_VOLUMES;
+    }
+  });
+  // Seed for this session's office layout and executive AI. Shown in the HUD
+  // so a run can be reproduced or shared.
+  const [seed, setSeed] = useState(() => randomSeed());
+  // Office layout chosen on the title screen: a generator, a curated level
+  // or ROTATE_BY_LEVEL
+  const [layout, setLayout] = useState(DEFAULT_MAZE_GENERATOR);
+  // Whether each new seniority level moves the run to a fresh floor
+  const [freshFloors, setFreshFloors] = useState(false);
+  // Bumped on every START GAME so the canvas rebuilds the office from scratch
+  const [runId, setRunId] = useState(0);
+  // Recording of the most recent live run, available from the game-over screen
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  // Recording currently being played back (null during live play)
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
   const [showTitle, setShowTitle] = useState(true);
   const [highScores, setHighScores] = useState<HighScoreEntry[]>(() => {
     const defaults: HighScoreEntry[] = [
@@ -61,54 +218,270 @@ export const Game = () => {
     }
   });
 
-  const updateScore = (points: number) => {
-    setGameState((prev) => {
-      const newScore = prev.score + points;
-      // Increase level by 1 every 25 points, starting from the chosen base level.
-      const newLevel = baseLevel + Math.floor(newScore / 25);
-      return { ...prev, score: newScore, level: newLevel };
+  // Today's Daily Shift table and each local profile's streak
+  const [dailyBoard, setDailyBoard] = useState<DailyBoard>(() => {
+    const empty = { date: dailyShift().date, scores: [] };
+    if (typeof window === "undefined") return empty;
+    try {
+      const stored = window.localStorage.getItem(DAILY_SCORES_STORAGE_KEY);
+      if (!stored) return empty;
+      const parsed = JSON.parse(stored) as DailyBoard;
+      if (typeof parsed?.date !== "string" || !Array.isArray(parsed.scores)) {
+        return empty;
+      }
+      return {
+        date: parsed.date,
+        scores: parsed.scores.filter(
+          (e) =>
+            typeof e?.name === "string" &&
+            typeof e?.score === "number" &&
+            Number.isFinite(e.score)
+        ),
+      };
+    } catch {
+      return empty;
+    }
+  });
+  const [dailyProfiles, setDailyProfiles] = useState<
+    Record<string, DailyProfile>
+  >(() => {
+    if (typeof window === "undefined") return {};
+    try {
+      const stored = window.localStorage.getItem(DAILY_PROFILES_STORAGE_KEY);
+      if (!stored) return {};
+      const parsed = JSON.parse(stored) as Record<string, DailyProfile>;
+      return Object.fromEntries(
+        Object.entries(parsed ?? {}).filter(
+          ([, profile]) =>
+            typeof profile?.lastPlayed === "string" &&
+            typeof profile?.streak === "number"
+        )
+      );
+    } catch {
+      return {};
+    }
+  });
+  const [dailyRun, setDailyRun] = useState<DailyRun | null>(null);
+  const today = dailyShift().date;
+
+  const updateScore = (player: number, points: number) => {
+    setGameState((prev) => ({
+      ...prev,
+      score: prev.score + points,
+      playerScores: prev.playerScores.map((score, i) =>
+        i === player ? score + points : score
+      ),
+    }));
+  };
+
+  // Every objective on the floor is done: stop for the level-complete
+  // summary. Replays just carry on, as the recording moves up by itself.
+  const completeLevel = (summary: FloorSummary) => {
+    if (activeReplay) {
+      setGameState((prev) => ({ ...prev, level: prev.level + 1 }));
+      return;
+    }
+    setLevelSummary(summary);
+    setGameState((prev) => ({
+      ...prev,
+      isPaused: true,
+      isLevelComplete: true,
+    }));
+  };
+
+  const handleNextFloor = () => {
+    setLevelSummary(null);
+    setFloorStartScore(gameState.score);
+    setGameState((prev) => ({
+      ...prev,
+      level: prev.level + 1,
+      isPaused: false,
+      isLevelComplete: false,
+    }));
+  };
+
+  const updateCombo = (player: number, next: ComboState) => {
+    setCombos((prev) => {
+      const combos = [...prev];
+      combos[player] = next;
+      return combos;
+    });
+    setGameState((prev) => ({
+      ...prev,
+      bestCombo: Math.max(prev.bestCombo, next.chain),
+    }));
+  };
+
+  // Versus: the vandal wins by running out the clock
+  const updateRoundClock = (timeLeft: number) => {
+    setRoundClock(timeLeft);
+    if (timeLeft <= 0) {
+      setGameState((prev) => ({ ...prev, isGameOver: true }));
+    }
+  };
+
+  // 9-to-5: 5 PM is clocking-out time
+  const updateOfficeClock = (minutes: number) => {
+    setOfficeClock(minutes);
+    if (minutes >= WORKDAY_MINUTES) {
+      setGameState((prev) =>
+        prev.isGameOver ? prev : clockOut(prev, minutes)
+      );
+    }
+  };
+
+  // Which pool of lives a player draws on
+  const poolOf = (lives: number[], player: number) =>
+    lives.length > 1 ? player : 0;
+
+  const updateInventory = (player: number, inventory: InventorySlot[]) => {
+    setInventories((prev) => {
+      const inventories = [...prev];
+      inventories[player] = inventory;
+      return inventories;
     });
   };
 
-  const loseLife = () => {
+  // A power-up was picked up: timed ones show in the HUD until they expire,
+  // and an HR pardon gives back a life
+  const applyPowerUp = (
+    player: number,
+    powerUp: PowerUpType,
+    duration: number
+  ) => {
+    if (powerUp === "extraLife") {
+      setGameState((prev) => {
+        const pool = poolOf(prev.lives, player);
+        return {
+          ...prev,
+          lives: prev.lives.map((lives, i) =>
+            i === pool ? Math.min(MAX_LIVES, lives + 1) : lives
+          ),
+        };
+      });
+      return;
+    }
+    setEffects((prev) => [
+      ...prev.filter(
+        (effect) => effect.player !== player || effect.powerUp !== powerUp
+      ),
+      { player, powerUp, duration, key: Date.now() },
+    ]);
+  };
+
+  const expireEffect = (player: number, powerUp: PowerUpType) => {
+    setEffects((prev) =>
+      prev.filter(
+        (effect) => effect.player !== player || effect.powerUp !== powerUp
+      )
+    );
+  };
+
+  // With separate lives the run is over as soon as either player runs out
+  const loseLife = (player: number) => {
     setGameState((prev) => {
-      const newLives = prev.lives - 1;
-      return {
-        ...prev,
-        lives: newLives,
-        isGameOver: newLives <= 0,
-      };
+      const pool = poolOf(prev.lives, player);
+      const newLives = prev.lives.map((lives, i) =>
+        i === pool ? lives - 1 : lives
+      );
+      const next = { ...prev, lives: newLives };
+      if (!newLives.some((lives) => lives <= 0)) return next;
+      return officeClock === null
+        ? { ...next, isGameOver: true }
+        : clockOut(next, officeClock);
     });
   };
 
   const resetGame = () => {
     // Reset core state but return to the title screen so the player can
     // choose a new starting level before jumping back in.
-    setGameState({
-      score: 0,
-      lives: 3,
-      level: 1,
-      isGameOver: false,
-      isPaused: true,
-    });
-    setBaseLevel(1);
+    setGameState(newRunState(1, mode, true));
+    setRoundClock(null);
+    setOfficeClock(null);
+    setCombos([]);
+    setEffects([]);
+    setLevelSummary(null);
+    setFloorStartScore(0);
+    setActiveReplay(null);
+    setDailyRun(null);
     setShowTitle(true);
   };
 
+  const handleVolumeChange = (bus: AudioBus, value: number) => {
+    setVolumes((prev) => {
+      const next = { ...prev, [bus]: value };
+      try {
+        window.localStorage.setItem(VOLUMES_STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // ignore storage errors
+      }
+      return next;
+    });
+  };
+
+  // Only the host can pause a networked game
   const togglePause = useCallback(() => {
+    if (isGuest) return;
     setGameState((prev) => {
       console.log("togglePause called, current isPaused:", prev.isPaused);
+      // The level-complete summary has its own button to carry on
+      if (prev.isLevelComplete) return prev;
       return { ...prev, isPaused: !prev.isPaused };
     });
-  }, []); // Empty deps - uses functional update so doesn't need isPaused in deps
+  }, [isGuest]); // Functional update, so isPaused needn't be a dep
 
   const [pendingHighScore, setPendingHighScore] =
     useState<HighScoreEntry | null>(null);
   const [pendingInitials, setPendingInitials] = useState("YOU");
 
-  // When game ends, decide if we should show the "New High Score" banner
+  // A networked guest follows the host: each new run clears the HUD, and
+  // every snapshot brings the host's GameState. Saying "ready" once listening
+  // catches a guest up on a run that started before they joined.
+  useEffect(() => {
+    if (!net || net.isHost) return;
+    const unsubscribe = net.subscribe((event) => {
+      if (event.type !== "message") return;
+      const { message } = event;
+      if (message.type === "start") {
+        setSeed(message.seed);
+        setCombos([]);
+        setEffects([]);
+        setInventories([]);
+        setLevelSummary(null);
+        setShowTitle(false);
+      } else if (message.type === "snapshot") {
+        setGameState(message.gameState);
+      }
+    });
+    net.send({ type: "ready" });
+    return unsubscribe;
+  }, [net]);
+
+  // A guest who joins once the host's run is under way missed its "start",
+  // so the host tells them again when they say they're ready
   useEffect(() => {
-    if (!gameState.isGameOver) return;
+    if (!net?.isHost || showTitle) return;
+    return net.subscribe((event) => {
+      if (event.type === "message" && event.message.type === "ready") {
+        net.send({ type: "start", seed });
+      }
+    });
+  }, [net, showTitle, seed]);
+
+  // When game ends, decide if we should show the "New High Score" banner.
+  // Versus rounds are cut short by the clock, so they stay off the table, and
+  // Daily Shifts have a table of their own. Networked guests leave it to the
+  // host, whose run it is.
+  useEffect(() => {
+    if (
+      !gameState.isGameOver ||
+      activeReplay ||
+      roundClock !== null ||
+      dailyRun ||
+      isGuest
+    ) {
+      return;
+    }
     const currentScore = gameState.score;
     const hasDefault = highScores.some((e) => e.name === "---");
     const playerOnly = highScores.filter((e) => e.name !== "---");
@@ -129,15 +502,54 @@ export const Game = () => {
     }
     setPendingHighScore({ name: "YOU", score: currentScore });
     setPendingInitials("YOU");
-  }, [gameState.isGameOver, gameState.score, highScores]);
+  }, [
+    gameState.isGameOver,
+    gameState.score,
+    highScores,
+    activeReplay,
+    roundClock,
+    dailyRun,
+    isGuest,
+  ]);
+
+  // A scored Daily Shift goes straight onto its day's table under the
+  // profile's initials
+  useEffect(() => {
+    if (!gameState.isGameOver || activeReplay) return;
+    if (!dailyRun?.scored || dailyRun.rank !== undefined) return;
+    const entry: HighScoreEntry = {
+      name: dailyRun.profile,
+      score: gameState.score,
+    };
+    const scores = [
+      ...(dailyBoard.date === dailyRun.date ? dailyBoard.scores : []),
+      entry,
+    ]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, DAILY_TABLE_SIZE);
+    const board = { date: dailyRun.date, scores };
+    setDailyBoard(board);
+    try {
+      window.localStorage.setItem(
+        DAILY_SCORES_STORAGE_KEY,
+        JSON.stringify(board)
+      );
+    } catch {
+      // ignore storage errors
+    }
+    const rank = scores.indexOf(entry);
+    setDailyRun({ ...dailyRun, rank: rank === -1 ? null : rank + 1 });
+  }, [
+    gameState.isGameOver,
+    gameState.score,
+    activeReplay,
+    dailyRun,
+    dailyBoard,
+  ]);
 
   const commitHighScore = () => {
     if (!pendingHighScore) return;
-    const cleaned = pendingInitials
-      .toUpperCase()
-      .replace(/[^A-Z]/g, "")
-      .slice(0, 3)
-      .padEnd(3, "_");
+    const cleaned = cleanInitials(pendingInitials);
 
     const entry: HighScoreEntry = {
       name: cleaned,
@@ -187,18 +599,89 @@ export const Game = () => {
     resetGame();
   };
 
-  const handleStartGame = (level: number) => {
-    setBaseLevel(level);
-    setGameState({
-      score: 0,
-      lives: 3,
-      level,
-      isGameOver: false,
-      isPaused: false,
-    });
+  const handleStartGame = (
+    level: number,
+    seedText: string,
+    chosenLayout: string,
+    chosenFreshFloors: boolean,
+    chosenMode: PlayMode,
+    chosenWorkday: boolean
+  ) => {
+    const nextSeed = seedText.trim() ? parseSeed(seedText) : randomSeed();
+    setSeed(nextSeed);
+    net?.send({ type: "start", seed: nextSeed });
+    setLayout(chosenLayout);
+    setFreshFloors(chosenFreshFloors);
+    setMode(chosenMode);
+    setRunId((id) => id + 1);
+    setCombos([]);
+    setEffects([]);
+    setLevelSummary(null);
+    setFloorStartScore(0);
+    setGameState(newRunState(level, chosenMode, false));
+    setRoundClock(chosenMode === "versus" ? VERSUS_ROUND_TIME : null);
+    setWorkday(chosenWorkday);
+    setOfficeClock(chosenWorkday ? 0 : null);
+    setDailyRun(null);
     setShowTitle(false);
   };
 
+  // Today's office, solo from level 1 with a new floor each level. The
+  // first attempt each day counts towards the profile's streak and today's
+  // table; any more are practice.
+  const handleStartDaily = (initials: string) => {
+    const shift = dailyShift();
+    const profile = cleanInitials(initials);
+    const scored = !playedToday(dailyProfiles[profile], shift.date);
+    if (scored) {
+      // The attempt is spent on clocking in, so bailing out earns no retry
+      const next = {
+        ...dailyProfiles,
+        [profile]: recordAttempt(dailyProfiles[profile], shift.date),
+      };
+      setDailyProfiles(next);
+      try {
+        window.localStorage.setItem(
+          DAILY_PROFILES_STORAGE_KEY,
+          JSON.stringify(next)
+        );
+      } catch {
+        // ignore storage errors
+      }
+    }
+    handleStartGame(1, String(shift.seed), shift.layout, true, "solo", false);
+    setDailyRun({ profile, date: shift.date, scored });
+  };
+
+  // Play a recorded run back from the start. Scores from a replay never go
+  // on the high-score table.
+  const handleWatchReplay = (replay: Replay) => {
+    setCombos([]);
+    setEffects([]);
+    setLevelSummary(null);
+    setFloorStartScore(0);
+    setGameState(newRunState(replay.level, replayMode(replay), false));
+    setRoundClock(replay.versus ? VERSUS_ROUND_TIME : null);
+    setOfficeClock(replay.workday ? 0 : null);
+    setDailyRun(null);
+    // Always hand the canvas a new object so watching the same recording
+    // twice in a row still restarts playback.
+    setActiveReplay({ ...replay });
+    setShowTitle(false);
+  };
+
+  const handleDownloadReplay = (replay: Replay) => {
+    const blob = new Blob([JSON.stringify(replay)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `office-rage-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="min-h-screen bg-white flex flex-col">
       <div className="w-full px-4 py-4">
@@ -216,24 +699,126 @@ export const Game = () => {
               score={gameState.score}
               lives={gameState.lives}
               level={gameState.level}
+              playerScores={gameState.playerScores}
+              combos={combos}
+              effects={effects}
+              objectives={objectives}
+              inventories={inventories}
               onPause={togglePause}
               isPaused={gameState.isPaused}
               soundEnabled={soundEnabled}
               onToggleSound={() => setSoundEnabled((prev) => !prev)}
+              volumes={volumes}
+              onVolumeChange={handleVolumeChange}
+              seed={seed}
+              roundClock={roundClock}
+              officeClock={officeClock}
             />
             <div className="relative border-4 border-primary rounded-3xl overflow-hidden shadow-[0_8px_40px_rgba(255,105,180,0.5)] glossy">
               <GameCanvas
                 gameState={gameState}
                 updateScore={updateScore}
+                updateCombo={updateCombo}
+                applyPowerUp={applyPowerUp}
+                expireEffect={expireEffect}
+                updateInventory={updateInventory}
+                updateObjectives={setObjectives}
+                completeLevel={completeLevel}
                 loseLife={loseLife}
                 togglePause={togglePause}
                 soundEnabled={soundEnabled}
+                volumes={volumes}
+                seed={seed}
+                layout={layout}
+                customLevel={customLevel}
+                freshFloors={freshFloors}
+                players={playerCount(mode)}
+                sharedLives={mode !== "separate"}
+                versus={mode === "versus"}
+                updateRoundClock={updateRoundClock}
+                workday={workday}
+                updateOfficeClock={updateOfficeClock}
+                runId={runId}
+                replay={activeReplay}
+                onRecordingFinished={setLastReplay}
+                net={net}
               />
-              {showTitle && !gameState.isGameOver && (
-                <GameTitle highScores={highScores} onStart={handleStartGame} />
+              {activeReplay && !gameState.isGameOver && (
+                <div className="absolute top-3 left-3 z-10 px-3 py-1 rounded-full bg-background/80 border-2 border-arcade-cyan text-arcade-cyan text-xs font-bold text-shadow-neon animate-pulse">
+                  ▶ REPLAY
+                </div>
+              )}
+              {showTitle && !gameState.isGameOver && !isGuest && (
+                <GameTitle
+                  highScores={highScores}
+                  onStart={handleStartGame}
+                  onLoadReplay={handleWatchReplay}
+                  dailyDate={today}
+                  dailyScores={
+                    dailyBoard.date === today ? dailyBoard.scores : []
+                  }
+                  dailyProfiles={dailyProfiles}
+                  onStartDaily={handleStartDaily}
+                  customLevelName={customLevel?.name}
+                  online={net !== null}
+                />
+              )}
+              {showTitle && !gameState.isGameOver && isGuest && (
+                <div className="absolute inset-0 backdrop-blur-md bg-background/80 flex items-center justify-center z-20">
+                  <div className="text-center space-y-3 p-8 border-4 border-arcade-cyan rounded-3xl bg-card glossy shadow-[0_8px_60px_rgba(0,255,255,0.5)] max-w-md mx-auto">
+                    <h2 className="text-3xl font-bold text-arcade-cyan text-shadow-neon">
+                      ROOM {net.room}
+                    </h2>
+                    <p className="text-arcade-pink font-bold animate-pulse">
+                      Waiting for the host to start the shift...
+                    </p>
+                  </div>
+                </div>
+              )}
+              {levelSummary && !gameState.isGameOver && (
+                <LevelComplete
+                  level={gameState.level}
+                  summary={levelSummary}
+                  damage={gameState.score - floorStartScore}
+                  bestCombo={gameState.bestCombo}
+                  onContinue={handleNextFloor}
+                />
               )}
               {gameState.isGameOver && !pendingHighScore && (
-                <GameOver score={gameState.score} onRestart={resetGame} />
+                <GameOver
+                  score={gameState.score}
+                  winner={
+                    roundClock === null
+                      ? undefined
+                      : gameState.lives.some((lives) => lives <= 0)
+                        ? "executive"
+                        : "vandal"
+                  }
+                  bestCombo={gameState.bestCombo}
+                  officeClock={officeClock ?? undefined}
+                  daily={
+                    dailyRun && !activeReplay
+                      ? {
+                          scored: dailyRun.scored,
+                          rank: dailyRun.rank ?? null,
+                          streak: currentStreak(
+                            dailyProfiles[dailyRun.profile],
+                            dailyRun.date
+                          ),
+                        }
+                      : undefined
+                  }
+                  onRestart={resetGame}
+                  isReplay={activeReplay !== null}
+                  onWatchReplay={
+                    lastReplay ? () => handleWatchReplay(lastReplay) : undefined
+                  }
+                  onDownloadReplay={
+                    lastReplay
+                      ? () => handleDownloadReplay(lastReplay)
+                      : undefined
+                  }
+                />
               )}
               {pendingHighScore && (
                 <div className="absolute inset-0 backdrop-blur-md bg-background/80 flex items-center justify-center z-30">
@@ -1,29 +1,86 @@
-import { Heart, Pause, Play, Volume2, VolumeX } from "lucide-react";
+import {
+  CheckSquare,
+  Heart,
+  Pause,
+  Play,
+  SlidersHorizontal,
+  Square,
+  Volume2,
+  VolumeX,
+} from "lucide-react";
+import { AUDIO_BUSES, AudioBus, BusVolumes } from "@/game/audio";
+import { COMBO_WINDOW, HOTBAR_SIZE } from "@/game/constants";
+import { describeObjective } from "@/game/objectives";
+import { PLAYER_LOOKS } from "@/game/players";
+import { POWER_UPS } from "@/game/powerups";
+import { THROWABLES } from "@/game/throwables";
+import { ComboState, InventorySlot, ObjectiveProgress } from "@/game/types";
+import { formatOfficeTime, WORKDAY_PHASES, workdayPhase } from "@/game/workday";
+import { ActiveEffect } from "./Game";
 import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Slider } from "./ui/slider";
+
+const BUS_LABELS: Record<AudioBus, string> = {
+  sfx: "SOUND FX",
+  music: "MUSIC",
+  ui: "INTERFACE",
+};
 
 interface GameHUDProps {
   score: number;
-  lives: number;
+  // Per player, in world.players order
+  playerScores: number[];
+  // One entry per pool of lives
+  lives: number[];
   level: number;
+  // Per player; missing until a player's first combo
+  combos: ComboState[];
+  effects: ActiveEffect[];
+  objectives: ObjectiveProgress[];
+  // Per player; missing until the simulation first reports a hotbar
+  inventories: InventorySlot[][];
   onPause: () => void;
   isPaused: boolean;
   soundEnabled: boolean;
   onToggleSound: () => void;
+  volumes: BusVolumes;
+  onVolumeChange: (bus: AudioBus, value: number) => void;
+  seed: number;
+  // Whole seconds left in a versus round; null outside versus
+  roundClock: number | null;
+  // Office minutes since 9 AM in the 9-to-5 mode; null outside it
+  officeClock: number | null;
 }
 
 export const GameHUD = ({
   score,
+  playerScores,
   lives,
   level,
+  combos,
+  effects,
+  objectives,
+  inventories,
   onPause,
   isPaused,
   soundEnabled,
   onToggleSound,
+  volumes,
+  onVolumeChange,
+  seed,
+  roundClock,
+  officeClock,
 }: GameHUDProps) => {
+  // In co-op everything per player gets tagged with whose it is
+  const coop = playerScores.length > 1;
+  const tag = (player: number) =>
+    coop ? `${PLAYER_LOOKS[player].label} ` : "";
+
   return (
     <div className="bg-card glossy border-4 border-primary rounded-3xl p-4 shadow-[0_8px_32px_rgba(255,105,180,0.3)]">
       <div className="flex flex-col gap-3">
-        {/* Top row: damage (left) and HR violations (right) */}
+        {/* Top row: damage (left), combo (middle) and HR violations (right) */}
         <div className="flex items-center justify-between gap-4">
           <div className="flex items-center gap-2">
             <span className="text-arcade-cyan font-bold text-sm text-shadow-neon">
@@ -32,35 +89,225 @@ export const GameHUD = ({
             <span className="text-arcade-pink text-2xl font-bold text-shadow-neon">
               {score}
             </span>
+            {coop &&
+              playerScores.map((points, i) => (
+                <span
+                  key={i}
+                  className="text-xs font-bold text-shadow-neon"
+                  style={{ color: PLAYER_LOOKS[i].color }}
+                >
+                  {PLAYER_LOOKS[i].label} {points}
+                </span>
+              ))}
           </div>
 
+          {combos.map(
+            (combo, i) =>
+              combo?.chain > 0 && (
+                <div key={i} className="flex flex-col items-center gap-1">
+                  <span className="text-arcade-yellow text-lg font-bold text-shadow-neon">
+                    {tag(i)}COMBO x{combo.multiplier}
+                  </span>
+                  {/* Drains over the combo window; restarts on every hit */}
+                  <div className="w-24 h-1.5 rounded-full bg-muted overflow-hidden">
+                    <div
+                      key={combo.chain}
+                      className="h-full bg-arcade-yellow animate-combo-decay"
+                      style={{
+                        animationDuration: `${COMBO_WINDOW}s`,
+                        animationPlayState: isPaused ? "paused" : "running",
+                      }}
+                    />
+                  </div>
+                </div>
+              )
+          )}
+
           <div className="flex items-center gap-2">
             <span className="text-arcade-cyan font-bold text-sm text-shadow-neon">
               HR VIOLATIONS:
             </span>
-            <div className="flex gap-1">
-              {Array.from({ length: lives }).map((_, i) => (
-                <Heart
-                  key={i}
-                  className="w-6 h-6 fill-primary text-primary drop-shadow-[0_0_8px_rgba(255,105,180,0.8)]"
-                />
-              ))}
-            </div>
+            {lives.map((pool, p) => (
+              <div key={p} className="flex items-center gap-1">
+                {lives.length > 1 && (
+                  <span
+                    className="text-xs font-bold text-shadow-neon"
+                    style={{ color: PLAYER_LOOKS[p].color }}
+                  >
+                    {PLAYER_LOOKS[p].label}
+                  </span>
+                )}
+                {Array.from({ length: pool }).map((_, i) => (
+                  <Heart
+                    key={i}
+                    className="w-6 h-6 fill-primary text-primary drop-shadow-[0_0_8px_rgba(255,105,180,0.8)]"
+                  />
+                ))}
+              </div>
+            ))}
           </div>
         </div>
 
-        {/* Bottom row: seniority level (left) and controls (right) */}
-        <div className="flex items-center justify-between gap-4">
-          <div className="flex items-center gap-2">
+        {/* Active power-ups, each draining over its duration */}
+        {effects.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            {effects.map(({ player, powerUp, duration, key }) => {
+              const { label, color } = POWER_UPS[powerUp];
+              return (
+                <div
+                  key={`${player}-${powerUp}`}
+                  className="flex flex-col gap-1"
+                >
+                  <span
+                    className="text-xs font-bold text-shadow-neon"
+                    style={{ color }}
+                  >
+                    {tag(player)}
+                    {label}
+                  </span>
+                  <div className="w-24 h-1.5 rounded-full bg-muted overflow-hidden">
+                    <div
+                      key={key}
+                      className="h-full animate-combo-decay"
+                      style={{
+                        backgroundColor: color,
+                        animationDuration: `${duration}s`,
+                        animationPlayState: isPaused ? "paused" : "running",
+                      }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Middle row: the floor's objectives */}
+        {objectives.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
             <span className="text-arcade-cyan font-bold text-sm text-shadow-neon">
-              SENIORITY LEVEL:
-            </span>
-            <span className="text-arcade-yellow text-2xl font-bold text-shadow-neon">
-              {level}
+              OBJECTIVES:
             </span>
+            {objectives.map((progress, i) => (
+              <span
+                key={i}
+                className={`flex items-center gap-1 text-sm font-semibold ${
+                  progress.complete
+                    ? "text-arcade-green"
+                    : "text-muted-foreground"
+                }`}
+              >
+                {progress.complete ? (
+                  <CheckSquare className="w-4 h-4" />
+                ) : (
+                  <Square className="w-4 h-4" />
+                )}
+                {describeObjective(progress.objective)}
+                {` (${progress.count}/${progress.target})`}
+                {!progress.complete && progress.timeLeft !== undefined && (
+                  <span className="text-arcade-orange font-mono">
+                    {Math.ceil(progress.timeLeft)}s
+                  </span>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Bottom row: seniority level and hotbar (left), controls (right) */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-arcade-cyan font-bold text-sm text-shadow-neon">
+                SENIORITY LEVEL:
+              </span>
+              <span className="text-arcade-yellow text-2xl font-bold text-shadow-neon">
+                {level}
+              </span>
+            </div>
+
+            {roundClock !== null && (
+              <div className="flex items-center gap-2">
+                <span className="text-arcade-cyan font-bold text-sm text-shadow-neon">
+                  SHIFT ENDS IN:
+                </span>
+                <span
+                  className={`text-2xl font-bold font-mono text-shadow-neon ${
+                    roundClock <= 10
+                      ? "text-arcade-orange"
+                      : "text-arcade-yellow"
+                  }`}
+                >
+                  {Math.floor(roundClock / 60)}:
+                  {String(roundClock % 60).padStart(2, "0")}
+                </span>
+              </div>
+            )}
+
+            {officeClock !== null && (
+              <div className="flex items-center gap-2">
+                <span className="text-arcade-cyan font-bold text-sm text-shadow-neon">
+                  OFFICE CLOCK:
+                </span>
+                <span className="text-2xl font-bold font-mono text-arcade-yellow text-shadow-neon">
+                  {formatOfficeTime(officeClock)}
+                </span>
+                <span
+                  className={`text-xs font-bold text-shadow-neon ${
+                    workdayPhase(officeClock) === "crackdown"
+                      ? "text-arcade-orange animate-pulse"
+                      : "text-arcade-pink"
+                  }`}
+                >
+                  {WORKDAY_PHASES[workdayPhase(officeClock)].label}
+                </span>
+              </div>
+            )}
+
+            {/* Carried throwables; each slot's hotbar key throws one */}
+            {playerScores.map((_, p) => (
+              <div key={p} className="flex items-center gap-1">
+                {coop && (
+                  <span
+                    className="text-xs font-bold text-shadow-neon"
+                    style={{ color: PLAYER_LOOKS[p].color }}
+                  >
+                    {PLAYER_LOOKS[p].label}
+                  </span>
+                )}
+                {Array.from({ length: HOTBAR_SIZE }).map((_, i) => {
+                  const slot = inventories[p]?.[i];
+                  const throwable = slot && THROWABLES[slot.item];
+                  return (
+                    <div
+                      key={i}
+                      className="flex items-center gap-1 px-2 py-0.5 rounded-lg border-2 border-muted text-xs font-bold"
+                      style={throwable ? { borderColor: throwable.color } : {}}
+                    >
+                      <span className="text-muted-foreground font-mono">
+                        {PLAYER_LOOKS[p].controls.hotbar[i]}
+                      </span>
+                      {throwable ? (
+                        <span style={{ color: throwable.color }}>
+                          {throwable.label} x{slot.count}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">EMPTY</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
           </div>
 
           <div className="flex items-center gap-2">
+            <span
+              className="text-muted-foreground font-mono text-xs"
+              title="Enter this seed on the title screen to replay this office"
+            >
+              OFFICE #{seed}
+            </span>
             <Button
               onClick={onToggleSound}
               variant="outline"
@@ -74,6 +321,36 @@ export const GameHUD = ({
                 <VolumeX className="w-4 h-4" />
               )}
             </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="glossy hover:bg-primary/20 border-2 border-primary text-primary font-bold rounded-full"
+                  aria-label="Sound mixer"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-56 space-y-3 border-2 border-primary bg-card">
+                {AUDIO_BUSES.map((bus) => (
+                  <div key={bus} className="space-y-1">
+                    <span className="text-arcade-cyan font-bold text-xs text-shadow-neon">
+                      {BUS_LABELS[bus]}
+                    </span>
+                    <Slider
+                      value={[volumes[bus] * 100]}
+                      max={100}
+                      step={5}
+                      onValueChange={([value]) =>
+                        onVolumeChange(bus, value / 100)
+                      }
+                      aria-label={`${BUS_LABELS[bus]} volume`}
+                    />
+                  </div>
+                ))}
+              </PopoverContent>
+            </Popover>
             <Button
               onClick={onPause}
               variant="outline"
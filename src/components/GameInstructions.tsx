@@ -15,10 +15,68 @@ export const GameInstructions = () => {
           <ul className="space-y-1 text-muted-foreground font-semibold">
             <li>W/A/S/D: Move</li>
             <li>P: Destroy/Action</li>
+            <li>1/2/3: Throw from hotbar</li>
             <li>Space: Pause/Resume</li>
           </ul>
         </div>
 
+        <div>
+          <h3 className="text-arcade-cyan font-bold mb-2 text-shadow-neon">
+            👯 CO-OP (PLAYER 2)
+          </h3>
+          <ul className="space-y-1 text-muted-foreground font-semibold">
+            <li>Arrows: Move</li>
+            <li>Enter: Destroy/Action</li>
+            <li>, . /: Throw from hotbar</li>
+            <li>Executives chase whoever they have spotted</li>
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="text-arcade-cyan font-bold mb-2 text-shadow-neon">
+            ⚔️ VERSUS
+          </h3>
+          <ul className="space-y-1 text-muted-foreground font-semibold">
+            <li>Player 2 steers Grumpy Greg with the arrows</li>
+            <li>Fill his suspicion meter or walk into player 1 mid-chase</li>
+            <li>Player 1 wins by lasting until the shift ends</li>
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="text-arcade-cyan font-bold mb-2 text-shadow-neon">
+            🌐 ONLINE CO-OP
+          </h3>
+          <ul className="space-y-1 text-muted-foreground font-semibold">
+            <li>Run the relay with npm run relay</li>
+            <li>Create a room and share its code</li>
+            <li>Everyone plays with the player 1 keys</li>
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="text-arcade-cyan font-bold mb-2 text-shadow-neon">
+            📅 DAILY SHIFT
+          </h3>
+          <ul className="space-y-1 text-muted-foreground font-semibold">
+            <li>One office a day, the same for everyone</li>
+            <li>One scored attempt per initials per day</li>
+            <li>Play every day to keep your streak</li>
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="text-arcade-cyan font-bold mb-2 text-shadow-neon">
+            🕘 9-TO-5 SHIFT
+          </h3>
+          <ul className="space-y-1 text-muted-foreground font-semibold">
+            <li>The workday runs 9 AM to 5 PM on the office clock</li>
+            <li>Executives gather for the morning stand-up</li>
+            <li>They slow down over lunch, then crack down at 4 PM</li>
+            <li>Every office minute survived pays a time bonus</li>
+          </ul>
+        </div>
+
         <div>
           <h3 className="text-arcade-cyan font-bold mb-2 text-shadow-neon">
             💰 EARN COINS
@@ -29,6 +87,7 @@ export const GameInstructions = () => {
             <li>🎂 Cake in Face</li>
             <li>---</li>
             <li>📝 Scare executives (sneak up behind them)</li>
+            <li>🔥 Chain hits quickly for a combo (up to x5 coins)</li>
           </ul>
         </div>
 
@@ -38,19 +97,34 @@ export const GameInstructions = () => {
           </h3>
           <ul className="space-y-1 text-muted-foreground font-semibold">
             <li>☕ Coffee Boost: Speed up (3s)</li>
+            <li>📄 Expense Report: Invisible to executives (5s)</li>
+            <li>🧲 Coin Magnet: Pull in nearby coins (6s)</li>
+            <li>📅 All-Hands Meeting: Executives freeze (4s)</li>
+            <li>💗 HR Pardon: One violation forgiven</li>
+            <li>---</li>
+            <li>🎂 Cake: Throw at a coworker</li>
+            <li>🪣 Paint Can: Throw at a whiteboard</li>
+            <li>➰ Rubber Bands: Flick at an executive</li>
+            <li>---</li>
+            <li>Executives leave power-ups lying around</li>
           </ul>
         </div>
 
         <div className="pt-2 border-t border-border">
           <p className="text-xs text-muted-foreground italic font-medium">
-            Avoid the executives' vision cones! Sneak up behind them to stick a
-            kick-me sign!
+            Avoid the executives' vision cones! The longer they watch you, the
+            more suspicious they get (?) until they give chase (!). A full meter
+            or getting caught is an HR violation. Break line of sight and
+            they'll search where they last saw you. Vandalism is noisy, and
+            executives within earshot come to investigate. Duck into a cubicle,
+            plant or supply closet to hide for a few seconds (no vandalism or
+            coins while hidden). Sneak up behind them to stick a kick-me sign!
           </p>
         </div>
 
         <div className="pt-2">
           <p className="text-xs text-arcade-pink font-bold text-center text-shadow-neon">
-            Every 100 points = Level Up = Faster Executives!
+            Clear the floor's objectives = Level Up = Faster Executives!
           </p>
         </div>
       </div>
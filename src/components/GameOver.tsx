@@ -1,20 +1,100 @@
+import { WORKDAY_BONUS_PER_MINUTE } from "@/game/constants";
+import { formatOfficeTime, WORKDAY_MINUTES } from "@/game/workday";
 import { Button } from "./ui/button";
 
+// Who came out on top of a versus round
+type VersusWinner = "vandal" | "executive";
+
+const WINNER_TITLES: Record<VersusWinner, string> = {
+  vandal: "PLAYER 1 WINS!",
+  executive: "PLAYER 2 WINS!",
+};
+
+const WINNER_DETAILS: Record<VersusWinner, string> = {
+  vandal: "The vandal outlasted management",
+  executive: "Management fired the vandal",
+};
+
+// How a Daily Shift went: its place on today's table if it counted (null
+// if it didn't place), and the profile's streak
+interface DailyResult {
+  scored: boolean;
+  rank: number | null;
+  streak: number;
+}
+
 interface GameOverProps {
   score: number;
+  // Set when a versus round is over
+  winner?: VersusWinner;
+  // Longest combo of the run, in hits
+  bestCombo: number;
+  // Office minutes since 9 AM when a 9-to-5 run ended
+  officeClock?: number;
+  // Set when a Daily Shift is over
+  daily?: DailyResult;
   onRestart: () => void;
+  isReplay: boolean;
+  onWatchReplay?: () => void;
+  onDownloadReplay?: () => void;
 }
 
-export const GameOver = ({ score, onRestart }: GameOverProps) => {
+export const GameOver = ({
+  score,
+  winner,
+  bestCombo,
+  officeClock,
+  daily,
+  onRestart,
+  isReplay,
+  onWatchReplay,
+  onDownloadReplay,
+}: GameOverProps) => {
+  const clockedOut =
+    officeClock !== undefined && officeClock >= WORKDAY_MINUTES;
   return (
     <div className="absolute inset-0 backdrop-blur-md bg-background/80 flex items-center justify-center">
       <div className="text-center space-y-6 p-8 border-4 border-primary rounded-3xl bg-card glossy shadow-[0_8px_60px_rgba(255,105,180,0.6)]">
         <h2 className="text-4xl font-bold text-primary text-shadow-neon animate-pulse">
-          YOU'RE FIRED!
+          {winner
+            ? WINNER_TITLES[winner]
+            : isReplay
+              ? "END OF REPLAY"
+              : clockedOut
+                ? "CLOCKED OUT!"
+                : "YOU'RE FIRED!"}
         </h2>
+        {winner && (
+          <p className="text-lg text-arcade-yellow text-shadow-neon font-bold">
+            {WINNER_DETAILS[winner]}
+          </p>
+        )}
         <div className="space-y-2">
           <p className="text-xl text-arcade-cyan text-shadow-neon font-bold">Final Workplace Damage:</p>
           <p className="text-5xl font-bold text-arcade-pink text-shadow-neon">{score}</p>
+          {bestCombo > 1 && (
+            <p className="text-lg text-arcade-yellow text-shadow-neon font-bold">
+              Best combo: {bestCombo} hits
+            </p>
+          )}
+          {officeClock !== undefined && (
+            <p className="text-sm text-arcade-yellow text-shadow-neon font-bold">
+              {clockedOut
+                ? "Made it to 5 PM"
+                : `Escorted out at ${formatOfficeTime(officeClock)}`}
+              {` · Time bonus: +${officeClock * WORKDAY_BONUS_PER_MINUTE}`}
+            </p>
+          )}
+          {daily && (
+            <p className="text-sm text-arcade-cyan text-shadow-neon font-bold">
+              {!daily.scored
+                ? "Practice shift: today's score is already in"
+                : daily.rank
+                  ? `#${daily.rank} on today's Daily Shift`
+                  : "Daily Shift logged"}
+              {daily.streak > 0 && ` · ${daily.streak}-day streak`}
+            </p>
+          )}
         </div>
         <div className="space-y-2 text-muted-foreground text-sm font-medium">
           <p className="italic">"Women are ruining the workplace!"</p>
@@ -26,6 +106,30 @@ export const GameOver = ({ score, onRestart }: GameOverProps) => {
         >
           APPLY AGAIN
         </Button>
+        {(onWatchReplay || onDownloadReplay) && (
+          <div className="flex justify-center gap-3">
+            {onWatchReplay && (
+              <Button
+                onClick={onWatchReplay}
+                variant="outline"
+                size="sm"
+                className="border-2 border-arcade-cyan text-arcade-cyan font-bold rounded-full"
+              >
+                WATCH REPLAY
+              </Button>
+            )}
+            {onDownloadReplay && (
+              <Button
+                onClick={onDownloadReplay}
+                variant="outline"
+                size="sm"
+                className="border-2 border-arcade-cyan text-arcade-cyan font-bold rounded-full"
+              >
+                SAVE REPLAY
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,21 +1,111 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  cleanInitials,
+  currentStreak,
+  DailyProfile,
+  playedToday,
+} from "@/game/daily";
+import { MAZE_GENERATORS, ROTATE_BY_LEVEL } from "@/game/generators";
+import { CURATED_LEVELS } from "@/game/levels";
+import { parseReplay, Replay } from "@/game/replay";
+import { PlayMode } from "./Game";
 import { Button } from "./ui/button";
+import { Switch } from "./ui/switch";
 
 interface HighScoreEntry {
   name: string;
   score: number;
 }
 
+const MODE_OPTIONS: { mode: PlayMode; name: string }[] = [
+  { mode: "solo", name: "1 Player" },
+  { mode: "shared", name: "Co-op: Shared Lives" },
+  { mode: "separate", name: "Co-op: Own Lives" },
+  { mode: "versus", name: "Versus" },
+];
+
 interface GameTitleProps {
-  onStart: (level: number) => void;
+  onStart: (
+    level: number,
+    seedText: string,
+    layout: string,
+    freshFloors: boolean,
+    mode: PlayMode,
+    workday: boolean
+  ) => void;
   highScores: HighScoreEntry[];
+  onLoadReplay: (replay: Replay) => void;
+  // Today's Daily Shift (YYYY-MM-DD), its table so far and the local
+  // profiles' streaks
+  dailyDate: string;
+  dailyScores: HighScoreEntry[];
+  dailyProfiles: Record<string, DailyProfile>;
+  onStartDaily: (initials: string) => void;
+  // Set while playtesting an editor level; replaces the layout picker
+  customLevelName?: string;
+  // Hosting a networked game: player two is the guest, so it's co-op only
+  online?: boolean;
 }
 
-export const GameTitle = ({ onStart, highScores }: GameTitleProps) => {
+export const GameTitle = ({
+  onStart,
+  highScores,
+  onLoadReplay,
+  dailyDate,
+  dailyScores,
+  dailyProfiles,
+  onStartDaily,
+  customLevelName,
+  online = false,
+}: GameTitleProps) => {
   const [selectedLevel, setSelectedLevel] = useState(1);
+  // Optional office seed; blank means a fresh random office
+  const [seedText, setSeedText] = useState("");
+  // Maze generator id, curated level id, or ROTATE_BY_LEVEL for a different
+  // generator per level
+  const [layout, setLayout] = useState(MAZE_GENERATORS[0].id);
+  // Move to a new office every time the seniority level goes up
+  const [freshFloors, setFreshFloors] = useState(false);
+  // Play one 9-to-5 workday on the office clock (versus has its own clock)
+  const [workday, setWorkday] = useState(false);
+  // A second player at the same keyboard: a partner, with or without pooled
+  // lives, or an executive to play against
+  const [mode, setMode] = useState<PlayMode>(online ? "shared" : "solo");
+
+  // Whose Daily Shift it is: whoever played most recently, to begin with
+  const [dailyInitials, setDailyInitials] = useState(
+    () =>
+      Object.entries(dailyProfiles).sort(([, a], [, b]) =>
+        b.lastPlayed.localeCompare(a.lastPlayed)
+      )[0]?.[0] ?? "YOU"
+  );
+  const dailyProfile = dailyProfiles[cleanInitials(dailyInitials)];
+  const dailyPlayed = playedToday(dailyProfile, dailyDate);
+  const dailyStreak = currentStreak(dailyProfile, dailyDate);
+
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
 
   const handleStart = () => {
-    onStart(selectedLevel);
+    onStart(
+      selectedLevel,
+      seedText,
+      layout,
+      freshFloors,
+      mode,
+      workday && mode !== "versus"
+    );
+  };
+
+  const handleReplayFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onLoadReplay(parseReplay(await file.text()));
+      setReplayError(null);
+    } catch {
+      setReplayError("That file isn't a valid replay.");
+    }
   };
 
   return (
@@ -33,6 +123,86 @@ export const GameTitle = ({ onStart, highScores }: GameTitleProps) => {
             START GAME
           </Button>
 
+          <div className="space-y-1">
+            <Button
+              onClick={() => replayInputRef.current?.click()}
+              variant="outline"
+              size="sm"
+              className="border-2 border-arcade-cyan text-arcade-cyan font-bold rounded-full"
+            >
+              LOAD REPLAY
+            </Button>
+            <Button
+              asChild
+              variant="outline"
+              size="sm"
+              className="ml-2 border-2 border-arcade-pink text-arcade-pink font-bold rounded-full"
+            >
+              <Link to="/editor">LEVEL EDITOR</Link>
+            </Button>
+            {!online && (
+              <Button
+                asChild
+                variant="outline"
+                size="sm"
+                className="ml-2 border-2 border-arcade-yellow text-arcade-yellow font-bold rounded-full"
+              >
+                <Link to="/lobby">ONLINE CO-OP</Link>
+              </Button>
+            )}
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                void handleReplayFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            {replayError && (
+              <p className="text-xs text-destructive font-bold">
+                {replayError}
+              </p>
+            )}
+          </div>
+
+          {!online && !customLevelName && (
+            <div className="space-y-2 p-3 border-2 border-arcade-yellow rounded-2xl">
+              <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
+                Daily Shift · {dailyDate}
+              </h2>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  maxLength={3}
+                  value={dailyInitials}
+                  onChange={(e) => setDailyInitials(e.target.value)}
+                  aria-label="Initials"
+                  className="w-20 text-center text-sm font-mono font-bold border-2 border-arcade-pink rounded-xl px-3 py-1 bg-background/80 text-arcade-pink outline-none focus:ring-2 focus:ring-primary"
+                />
+                <Button
+                  onClick={() => onStartDaily(dailyInitials)}
+                  size="sm"
+                  className="flex-1 bg-arcade-yellow hover:bg-arcade-yellow/80 text-black font-bold rounded-full"
+                >
+                  {dailyPlayed ? "PRACTICE AGAIN" : "CLOCK IN"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {dailyPlayed
+                  ? "Today's attempt is in. Practice runs aren't scored."
+                  : "Same office for everyone today. One scored attempt."}
+                {dailyStreak > 0 && (
+                  <span className="font-bold text-arcade-orange">
+                    {" "}
+                    {dailyStreak}-day streak
+                  </span>
+                )}
+              </p>
+            </div>
+          )}
+
           <div className="space-y-3">
             <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
               Level Select
@@ -56,26 +226,143 @@ export const GameTitle = ({ onStart, highScores }: GameTitleProps) => {
             </div>
           </div>
 
-          <div className="space-y-2 pt-3 border-t border-border">
+          <div className="space-y-3">
             <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
-              High Scores
+              Players
             </h2>
-            <div className="space-y-1 text-left">
-              {highScores.map((entry, index) => (
-                <div
-                  key={`${entry.name}-${entry.score}-${index}`}
-                  className="flex justify-between text-sm font-bold text-shadow-neon"
+            <div className="flex flex-wrap justify-center gap-2">
+              {MODE_OPTIONS.filter(
+                (option) =>
+                  !online ||
+                  option.mode === "shared" ||
+                  option.mode === "separate"
+              ).map((option) => (
+                <Button
+                  key={option.mode}
+                  variant={mode === option.mode ? "default" : "outline"}
+                  size="sm"
+                  className={
+                    mode === option.mode
+                      ? "bg-arcade-pink text-white text-shadow-neon"
+                      : "border-arcade-pink text-arcade-pink"
+                  }
+                  onClick={() => setMode(option.mode)}
                 >
-                  <span className="text-arcade-cyan mr-2">
-                    {index + 1}. {entry.name}
-                  </span>
-                  <span className="text-arcade-pink">{entry.score}</span>
-                </div>
+                  {option.name}
+                </Button>
               ))}
             </div>
-            <p className="text-xs text-muted-foreground italic">
-              HR can't touch this
-            </p>
+            {mode !== "versus" && (
+              <label className="flex items-center justify-center gap-2 text-xs font-bold text-arcade-pink">
+                <Switch checked={workday} onCheckedChange={setWorkday} />
+                9-to-5 shift: wreck all you can before clocking out
+              </label>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
+              Office Layout
+            </h2>
+            {customLevelName ? (
+              <div className="space-y-1">
+                <p className="text-arcade-pink font-bold text-shadow-neon">
+                  {customLevelName}
+                </p>
+                <Link
+                  to="/editor"
+                  className="text-xs text-arcade-cyan font-bold underline"
+                >
+                  Back to the editor
+                </Link>
+              </div>
+            ) : (
+              <div className="flex flex-wrap justify-center gap-2">
+                {[
+                  ...MAZE_GENERATORS,
+                  ...CURATED_LEVELS,
+                  { id: ROTATE_BY_LEVEL, name: "Rotate by Level" },
+                ].map((option) => (
+                  <Button
+                    key={option.id}
+                    variant={layout === option.id ? "default" : "outline"}
+                    size="sm"
+                    className={
+                      layout === option.id
+                        ? "bg-arcade-pink text-white text-shadow-neon"
+                        : "border-arcade-pink text-arcade-pink"
+                    }
+                    onClick={() => setLayout(option.id)}
+                  >
+                    {option.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <label className="flex items-center justify-center gap-2 text-xs font-bold text-arcade-pink">
+              <Switch checked={freshFloors} onCheckedChange={setFreshFloors} />
+              New floor every level
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
+              Office Seed
+            </h2>
+            <input
+              type="text"
+              value={seedText}
+              onChange={(e) => setSeedText(e.target.value)}
+              placeholder="random"
+              className="w-full text-center text-sm font-mono font-bold border-2 border-arcade-pink rounded-xl px-3 py-1 bg-background/80 text-arcade-pink outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-6 pt-3 border-t border-border">
+            <div className="space-y-2">
+              <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
+                High Scores
+              </h2>
+              <div className="space-y-1 text-left">
+                {highScores.map((entry, index) => (
+                  <div
+                    key={`${entry.name}-${entry.score}-${index}`}
+                    className="flex justify-between text-sm font-bold text-shadow-neon"
+                  >
+                    <span className="text-arcade-cyan mr-2">
+                      {index + 1}. {entry.name}
+                    </span>
+                    <span className="text-arcade-pink">{entry.score}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground italic">
+                HR can't touch this
+              </p>
+            </div>
+            <div className="space-y-2">
+              <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
+                Today's Shift
+              </h2>
+              <div className="space-y-1 text-left">
+                {dailyScores.map((entry, index) => (
+                  <div
+                    key={`${entry.name}-${entry.score}-${index}`}
+                    className="flex justify-between text-sm font-bold text-shadow-neon"
+                  >
+                    <span className="text-arcade-cyan mr-2">
+                      {index + 1}. {entry.name}
+                    </span>
+                    <span className="text-arcade-pink">{entry.score}</span>
+                  </div>
+                ))}
+              </div>
+              {dailyScores.length === 0 && (
+                <p className="text-xs text-muted-foreground italic">
+                  Nobody's clocked in yet
+                </p>
+              )}
+            </div>
           </div>
         </div>
 
@@ -83,6 +370,22 @@ export const GameTitle = ({ onStart, highScores }: GameTitleProps) => {
           Press <span className="font-bold">W/A/S/D</span> to move,{" "}
           <span className="font-bold">P</span> to cause chaos,{" "}
           <span className="font-bold">Space</span> to pause.
+          {!online && (mode === "shared" || mode === "separate") && (
+            <>
+              {" "}
+              Player 2: <span className="font-bold">Arrows</span> to move,{" "}
+              <span className="font-bold">Enter</span> for chaos.
+            </>
+          )}
+          {mode === "versus" && (
+            <>
+              {" "}
+              Player 2 is Grumpy Greg: <span className="font-bold">
+                Arrows
+              </span>{" "}
+              to walk and look around. Catch player 1 before the shift ends!
+            </>
+          )}
         </p>
       </div>
     </div>
@@ -0,0 +1,73 @@
+import { Check } from "lucide-react";
+import { describeObjective } from "@/game/objectives";
+import { FloorSummary } from "@/game/types";
+import { Button } from "./ui/button";
+
+interface LevelCompleteProps {
+  level: number;
+  summary: FloorSummary;
+  // Damage done on this floor
+  damage: number;
+  bestCombo: number;
+  onContinue: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+export const LevelComplete = ({
+  level,
+  summary,
+  damage,
+  bestCombo,
+  onContinue,
+}: LevelCompleteProps) => {
+  return (
+    <div className="absolute inset-0 backdrop-blur-md bg-background/80 flex items-center justify-center z-20">
+      <div className="text-center space-y-5 p-8 border-4 border-arcade-cyan rounded-3xl bg-card glossy shadow-[0_8px_60px_rgba(0,255,255,0.5)] max-w-md mx-auto">
+        <h2 className="text-4xl font-bold text-arcade-cyan text-shadow-neon">
+          FLOOR CLEARED!
+        </h2>
+        <p className="text-arcade-yellow font-bold text-shadow-neon">
+          Seniority level {level} complete
+        </p>
+        <ul className="space-y-1 text-left text-sm font-semibold">
+          {summary.objectives.map((progress, i) => (
+            <li key={i} className="flex items-center gap-2 text-arcade-green">
+              <Check className="w-4 h-4 shrink-0" />
+              {describeObjective(progress.objective)}
+            </li>
+          ))}
+        </ul>
+        <div className="grid grid-cols-3 gap-3 text-xs font-bold text-muted-foreground">
+          <div>
+            <p>TIME</p>
+            <p className="text-xl text-arcade-pink text-shadow-neon">
+              {formatTime(summary.time)}
+            </p>
+          </div>
+          <div>
+            <p>DAMAGE</p>
+            <p className="text-xl text-arcade-pink text-shadow-neon">
+              {damage}
+            </p>
+          </div>
+          <div>
+            <p>BEST COMBO</p>
+            <p className="text-xl text-arcade-pink text-shadow-neon">
+              {bestCombo}
+            </p>
+          </div>
+        </div>
+        <Button
+          onClick={onContinue}
+          className="bg-primary hover:bg-primary/80 text-primary-foreground font-bold text-lg px-8 py-6 rounded-full shadow-[0_0_30px_rgba(255,105,180,0.6)] glossy"
+        >
+          NEXT FLOOR
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,435 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { COLLECTIBLE_TYPES, ITEM_TYPES } from "@/game/collectibles";
+import { MAZE_HEIGHT, MAZE_WIDTH } from "@/game/constants";
+import { HIDING_SPOT_KINDS, HIDING_SPOT_TYPES } from "@/game/hidingSpots";
+import {
+  createBlankLevel,
+  LEVEL_GLYPHS,
+  LevelFile,
+  parseLevel,
+  validateLevel,
+} from "@/game/level";
+import { CURATED_LEVELS } from "@/game/levels";
+import {
+  EXECUTIVE_PERSONALITIES,
+  EXECUTIVE_ROSTER,
+} from "@/game/personalities";
+import { PatrolStyle } from "@/game/types";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+
+const EDITOR_CELL_SIZE = 18;
+// The work-in-progress level survives reloads and trips to the playtest
+const DRAFT_STORAGE_KEY = "officeRageEditorDraft";
+
+type ExecutiveEntry = LevelFile["executives"][number];
+
+interface Tool {
+  glyph: string;
+  label: string;
+  // Spawn markers and hiding spots are drawn as coloured letters, items with
+  // their sprite
+  color?: string;
+  sprite?: string;
+}
+
+const TOOLS: Tool[] = [
+  { glyph: LEVEL_GLYPHS.wall, label: "Wall", color: "#ff00ff" },
+  { glyph: LEVEL_GLYPHS.floor, label: "Erase", color: "#0a0a1a" },
+  { glyph: LEVEL_GLYPHS.player, label: "Player", color: "#ff69b4" },
+  { glyph: LEVEL_GLYPHS.executive, label: "Executive", color: "#ffd700" },
+  ...ITEM_TYPES.map((type) => ({
+    glyph: COLLECTIBLE_TYPES[type].glyph,
+    label: COLLECTIBLE_TYPES[type].label,
+    sprite: COLLECTIBLE_TYPES[type].sprite,
+  })),
+  ...HIDING_SPOT_KINDS.map((type) => ({
+    glyph: HIDING_SPOT_TYPES[type].glyph,
+    label: HIDING_SPOT_TYPES[type].label,
+    color: HIDING_SPOT_TYPES[type].color,
+  })),
+];
+
+const TOOLS_BY_GLYPH = Object.fromEntries(
+  TOOLS.map((tool) => [tool.glyph, tool])
+);
+
+// Walls and erasing can be dragged; markers are placed one click at a time.
+const PAINTABLE = new Set<string>([LEVEL_GLYPHS.wall, LEVEL_GLYPHS.floor]);
+
+const loadDraft = (): LevelFile => {
+  if (typeof window === "undefined") return createBlankLevel();
+  try {
+    const stored = window.localStorage.getItem(DRAFT_STORAGE_KEY);
+    return stored ? parseLevel(stored) : createBlankLevel();
+  } catch {
+    return createBlankLevel();
+  }
+};
+
+export const LevelEditor = () => {
+  const navigate = useNavigate();
+  const [initialLevel] = useState(loadDraft);
+  const [name, setName] = useState(initialLevel.name);
+  const [map, setMap] = useState<string[]>(initialLevel.map);
+  // Names, colours and personalities for the E spawns, in reading order
+  const [entries, setEntries] = useState<ExecutiveEntry[]>(
+    initialLevel.executives
+  );
+  const [tool, setTool] = useState<string>(LEVEL_GLYPHS.wall);
+  const paintingRef = useRef(false);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Executive spawns in reading order, matching how the loader assigns names
+  const executiveSpawns = useMemo(() => {
+    const spawns: { x: number; y: number }[] = [];
+    map.forEach((row, y) =>
+      [...row].forEach((glyph, x) => {
+        if (glyph === LEVEL_GLYPHS.executive) spawns.push({ x, y });
+      })
+    );
+    return spawns;
+  }, [map]);
+
+  // The map only ever holds legal glyphs and exactly one player spawn, so the
+  // assembled level always satisfies the schema.
+  const level = useMemo<LevelFile>(
+    () => ({
+      version: 1,
+      name: name.trim() || "Untitled Office",
+      map,
+      executives: entries.slice(0, executiveSpawns.length),
+    }),
+    [name, map, entries, executiveSpawns.length]
+  );
+
+  const problems = useMemo(() => validateLevel(level), [level]);
+  const flaggedCells = useMemo(
+    () => new Set(problems.map((p) => `${p.position.x},${p.position.y}`)),
+    [problems]
+  );
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(level));
+    } catch {
+      // ignore storage errors (private mode, quota)
+    }
+  }, [level]);
+
+  useEffect(() => {
+    const stopPainting = () => {
+      paintingRef.current = false;
+    };
+    window.addEventListener("mouseup", stopPainting);
+    return () => window.removeEventListener("mouseup", stopPainting);
+  }, []);
+
+  const loadLevel = (source: LevelFile) => {
+    setName(source.name);
+    setMap([...source.map]);
+    setEntries(source.executives.map((entry) => ({ ...entry })));
+  };
+
+  const paintCell = (x: number, y: number) => {
+    setMap((current) => {
+      const glyph = current[y][x];
+      // The player spawn can be moved but never painted over
+      if (glyph === tool || glyph === LEVEL_GLYPHS.player) return current;
+      const next = current.map((row) =>
+        tool === LEVEL_GLYPHS.player
+          ? row.replace(LEVEL_GLYPHS.player, LEVEL_GLYPHS.floor)
+          : row
+      );
+      next[y] = next[y].slice(0, x) + tool + next[y].slice(x + 1);
+      return next;
+    });
+  };
+
+  const updateExecutive = (index: number, change: Partial<ExecutiveEntry>) => {
+    setEntries((current) => {
+      const next = [...current];
+      for (let i = next.length; i <= index; i++) {
+        next.push({ ...EXECUTIVE_ROSTER[i % EXECUTIVE_ROSTER.length] });
+      }
+      next[index] = { ...next[index], ...change };
+      return next;
+    });
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      loadLevel(parseLevel(await file.text()));
+      setImportError(null);
+    } catch {
+      setImportError("That file isn't a valid level.");
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(level, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    const slug = level.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    link.download = `office-rage-level-${slug}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center p-4">
+      <div className="w-full max-w-7xl flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 flex flex-col gap-4 items-center">
+          <h1 className="text-3xl font-extrabold text-primary text-shadow-neon tracking-[0.2em] uppercase">
+            Level Editor
+          </h1>
+          <div
+            className="grid border-4 border-primary rounded-xl overflow-hidden select-none bg-[#0a0a1a]"
+            style={{
+              gridTemplateColumns: `repeat(${MAZE_WIDTH}, ${EDITOR_CELL_SIZE}px)`,
+              gridTemplateRows: `repeat(${MAZE_HEIGHT}, ${EDITOR_CELL_SIZE}px)`,
+            }}
+            onMouseLeave={() => {
+              paintingRef.current = false;
+            }}
+          >
+            {map.map((row, y) =>
+              [...row].map((glyph, x) => {
+                const isMarker =
+                  glyph !== LEVEL_GLYPHS.wall && glyph !== LEVEL_GLYPHS.floor;
+                const marker = TOOLS_BY_GLYPH[glyph];
+                return (
+                  <div
+                    key={`${x},${y}`}
+                    className={`flex items-center justify-center text-[10px] font-bold cursor-crosshair ${
+                      flaggedCells.has(`${x},${y}`)
+                        ? "ring-2 ring-inset ring-destructive"
+                        : ""
+                    }`}
+                    style={{
+                      backgroundColor:
+                        glyph === LEVEL_GLYPHS.wall ? "#ff00ff" : undefined,
+                      color: isMarker ? marker.color : undefined,
+                    }}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      paintingRef.current = PAINTABLE.has(tool);
+                      paintCell(x, y);
+                    }}
+                    onMouseEnter={() => {
+                      if (paintingRef.current) paintCell(x, y);
+                    }}
+                  >
+                    {isMarker &&
+                      (marker.sprite ? (
+                        <img
+                          src={marker.sprite}
+                          alt={marker.label}
+                          className="w-full h-full object-contain pointer-events-none"
+                        />
+                      ) : (
+                        glyph
+                      ))}
+                  </div>
+                );
+              })
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Markers anchor a sprite that also covers the cells around them, so
+            keep them one cell clear of walls.
+          </p>
+        </div>
+
+        <Card className="w-full lg:w-80 bg-card glossy border-4 border-secondary p-6 shadow-[0_8px_32px_rgba(0,255,255,0.3)] rounded-3xl space-y-4 text-sm">
+          <div className="space-y-2">
+            <h2 className="text-arcade-cyan font-bold text-shadow-neon uppercase tracking-wide">
+              Office Name
+            </h2>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full text-sm font-bold border-2 border-arcade-pink rounded-xl px-3 py-1 bg-background/80 text-arcade-pink outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <h2 className="text-arcade-cyan font-bold text-shadow-neon uppercase tracking-wide">
+              Tools
+            </h2>
+            <div className="grid grid-cols-2 gap-2">
+              {TOOLS.map((t) => (
+                <Button
+                  key={t.glyph}
+                  size="sm"
+                  variant={tool === t.glyph ? "default" : "outline"}
+                  className={
+                    tool === t.glyph
+                      ? "bg-arcade-pink text-white text-shadow-neon"
+                      : "border-arcade-pink text-arcade-pink"
+                  }
+                  onClick={() => setTool(t.glyph)}
+                >
+                  <span className="font-mono mr-1">{t.glyph}</span> {t.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {executiveSpawns.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-arcade-cyan font-bold text-shadow-neon uppercase tracking-wide">
+                Executives
+              </h2>
+              {executiveSpawns.map((spawn, i) => {
+                const entry =
+                  entries[i] ?? EXECUTIVE_ROSTER[i % EXECUTIVE_ROSTER.length];
+                return (
+                  <div
+                    key={`${spawn.x},${spawn.y}`}
+                    className="flex items-center gap-2"
+                  >
+                    <input
+                      type="color"
+                      value={entry.color}
+                      onChange={(e) =>
+                        updateExecutive(i, { color: e.target.value })
+                      }
+                      className="w-8 h-7 rounded border-0 bg-transparent"
+                    />
+                    <input
+                      type="text"
+                      value={entry.name}
+                      onChange={(e) =>
+                        updateExecutive(i, { name: e.target.value })
+                      }
+                      className="flex-1 min-w-0 text-xs font-bold border-2 border-arcade-pink rounded-lg px-2 py-1 bg-background/80 text-arcade-pink outline-none"
+                    />
+                    <select
+                      value={entry.profile?.patrol ?? "wander"}
+                      onChange={(e) =>
+                        updateExecutive(i, {
+                          profile: { patrol: e.target.value as PatrolStyle },
+                        })
+                      }
+                      aria-label={`${entry.name}'s personality`}
+                      className="w-28 text-xs font-bold border-2 border-arcade-cyan rounded-lg px-1 py-1 bg-background/80 text-arcade-cyan outline-none"
+                    >
+                      {Object.entries(EXECUTIVE_PERSONALITIES).map(
+                        ([style, { label }]) => (
+                          <option key={style} value={style}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h2 className="text-arcade-cyan font-bold text-shadow-neon uppercase tracking-wide">
+              Problems
+            </h2>
+            {problems.length === 0 ? (
+              <p className="text-arcade-green font-bold">
+                Everything is reachable.
+              </p>
+            ) : (
+              <ul className="space-y-1 text-destructive font-semibold text-xs max-h-32 overflow-y-auto">
+                {problems.map((problem, i) => (
+                  <li key={i}>{problem.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Button
+              onClick={() => navigate("/", { state: { level } })}
+              className="w-full bg-primary hover:bg-primary/80 text-primary-foreground font-bold rounded-full glossy"
+            >
+              PLAY THIS OFFICE
+            </Button>
+            <div className="flex gap-2">
+              <Button
+                onClick={handleExport}
+                variant="outline"
+                size="sm"
+                className="flex-1 border-2 border-arcade-cyan text-arcade-cyan font-bold rounded-full"
+              >
+                EXPORT
+              </Button>
+              <Button
+                onClick={() => importInputRef.current?.click()}
+                variant="outline"
+                size="sm"
+                className="flex-1 border-2 border-arcade-cyan text-arcade-cyan font-bold rounded-full"
+              >
+                IMPORT
+              </Button>
+            </div>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json,text/plain,.txt"
+              className="hidden"
+              onChange={(e) => {
+                void handleImportFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            {importError && (
+              <p className="text-xs text-destructive font-bold">
+                {importError}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2 pt-3 border-t border-border">
+            <h2 className="text-arcade-cyan font-bold text-shadow-neon uppercase tracking-wide">
+              Start From
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-arcade-pink text-arcade-pink"
+                onClick={() => loadLevel(createBlankLevel())}
+              >
+                Blank
+              </Button>
+              {CURATED_LEVELS.map((curated) => (
+                <Button
+                  key={curated.id}
+                  size="sm"
+                  variant="outline"
+                  className="border-arcade-pink text-arcade-pink"
+                  onClick={() => loadLevel(curated)}
+                >
+                  {curated.name}
+                </Button>
+              ))}
+            </div>
+            <Link
+              to="/"
+              className="block text-xs text-arcade-cyan font-bold underline"
+            >
+              Back to the game
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
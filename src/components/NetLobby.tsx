@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { connectToRoom, NetSession, RELAY_PORT } from "@/game/network";
+import { Game } from "./Game";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+
+// The relay usually runs on the machine serving the game
+const defaultRelayUrl = () =>
+  typeof window === "undefined"
+    ? `ws://localhost:${RELAY_PORT}`
+    : `ws://${window.location.hostname || "localhost"}:${RELAY_PORT}`;
+
+// Create or join a room on a relay, then play in it. The host gets the
+// usual title screen with the guest as player two; the guest waits for the
+// host to start.
+export const NetLobby = () => {
+  const [relayUrl, setRelayUrl] = useState(defaultRelayUrl);
+  const [roomCode, setRoomCode] = useState("");
+  const [session, setSession] = useState<NetSession | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Whether the other seat is filled
+  const [partnerHere, setPartnerHere] = useState(false);
+
+  useEffect(() => {
+    if (!session) return;
+    const unsubscribe = session.subscribe((event) => {
+      if (event.type === "peerJoined") {
+        setPartnerHere(true);
+      } else if (event.type === "peerLeft" || event.type === "closed") {
+        setPartnerHere(false);
+        // Without the host there's no game to follow
+        if (event.type === "closed" || (!session.isHost && event.seat === 0)) {
+          setError(
+            event.type === "closed"
+              ? "Lost the connection to the relay."
+              : "The host left the room."
+          );
+          setSession(null);
+        }
+      }
+    });
+    return () => {
+      unsubscribe();
+      session.close();
+    };
+  }, [session]);
+
+  const connect = async (room?: string) => {
+    setConnecting(true);
+    setError(null);
+    try {
+      const joined = await connectToRoom(relayUrl.trim(), room);
+      // A guest is only ever seated next to a host
+      setPartnerHere(!joined.isHost);
+      setSession(joined);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't connect.");
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  if (session) {
+    return (
+      <div className="min-h-screen bg-white">
+        <div className="flex items-center justify-center gap-4 px-4 py-2 bg-card border-b-4 border-arcade-cyan text-sm font-bold">
+          <span className="text-arcade-cyan text-shadow-neon">
+            ROOM {session.room}
+          </span>
+          <span
+            className={
+              partnerHere
+                ? "text-arcade-green"
+                : "text-muted-foreground animate-pulse"
+            }
+          >
+            {partnerHere
+              ? session.isHost
+                ? "Player 2 is here"
+                : "Connected to the host"
+              : "Waiting for player 2 to join..."}
+          </span>
+          <Button
+            onClick={() => setSession(null)}
+            variant="outline"
+            size="sm"
+            className="border-2 border-arcade-pink text-arcade-pink font-bold rounded-full"
+          >
+            LEAVE
+          </Button>
+        </div>
+        <Game net={session} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-card glossy border-4 border-primary p-6 rounded-3xl shadow-[0_8px_32px_rgba(255,105,180,0.3)] space-y-5 text-center">
+        <h1 className="text-3xl font-extrabold text-primary text-shadow-neon tracking-[0.2em] uppercase">
+          Online Co-op
+        </h1>
+        <p className="text-xs text-muted-foreground">
+          Start the relay on one machine with{" "}
+          <span className="font-mono font-bold">npm run relay</span>, then point
+          everyone at it. One player creates a room and shares its code.
+        </p>
+
+        <div className="space-y-1">
+          <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
+            Relay
+          </h2>
+          <input
+            type="text"
+            value={relayUrl}
+            onChange={(e) => setRelayUrl(e.target.value)}
+            className="w-full text-center text-sm font-mono font-bold border-2 border-arcade-pink rounded-xl px-3 py-1 bg-background/80 text-arcade-pink outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+
+        <Button
+          onClick={() => void connect()}
+          disabled={connecting}
+          className="w-full bg-primary hover:bg-primary/80 text-primary-foreground font-bold text-lg px-8 py-6 rounded-full shadow-[0_0_30px_rgba(255,105,180,0.6)] glossy"
+        >
+          CREATE ROOM
+        </Button>
+
+        <div className="space-y-2">
+          <h2 className="text-arcade-cyan font-bold text-shadow-neon text-sm uppercase tracking-wide">
+            Join a Room
+          </h2>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={roomCode}
+              onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+              placeholder="CODE"
+              maxLength={4}
+              className="flex-1 text-center text-sm font-mono font-bold border-2 border-arcade-pink rounded-xl px-3 py-1 bg-background/80 text-arcade-pink outline-none focus:ring-2 focus:ring-primary"
+            />
+            <Button
+              onClick={() => void connect(roomCode.trim())}
+              disabled={connecting || !roomCode.trim()}
+              variant="outline"
+              className="border-2 border-arcade-cyan text-arcade-cyan font-bold rounded-full"
+            >
+              JOIN
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-destructive font-bold">{error}</p>}
+
+        <Link
+          to="/"
+          className="block text-xs text-arcade-cyan font-bold underline"
+        >
+          Back to the office
+        </Link>
+      </Card>
+    </div>
+  );
+};
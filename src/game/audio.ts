@@ -0,0 +1,118 @@
+import { Position } from "./types";
+
+// Sounds are mixed on three buses with their own volume, all feeding a
+// master gain that the mute toggle silences.
+export type AudioBus = "sfx" | "music" | "ui";
+
+export type BusVolumes = Record<AudioBus, number>;
+
+export const AUDIO_BUSES: AudioBus[] = ["sfx", "music", "ui"];
+
+export const DEFAULT_BUS_VOLUMES: BusVolumes = { sfx: 1, music: 0.6, ui: 0.8 };
+
+export interface SoundDefinition {
+  src: string;
+  bus: AudioBus;
+  playbackRate?: number;
+}
+
+export interface PlayOptions {
+  // Grid position the sound came from; omit for non-positional sounds
+  position?: Position;
+  // Grid position of whoever is listening (the player)
+  listener?: Position;
+  // Seconds to wait before starting
+  delay?: number;
+}
+
+export interface AudioEngine {
+  play: (name: string, options?: PlayOptions) => void;
+  setVolumes: (volumes: BusVolumes) => void;
+  setMuted: (muted: boolean) => void;
+  // Release the audio context; the engine can't be used afterwards
+  close: () => void;
+}
+
+// Horizontal distance, in cells, at which a sound is panned hard left/right
+const PAN_DISTANCE = 20;
+// Distance, in cells, at which a sound fades down to MIN_DISTANCE_GAIN
+const HEARING_DISTANCE = 30;
+// Far-away sounds stay faintly audible so nothing happens in silence
+const MIN_DISTANCE_GAIN = 0.25;
+
+// Stereo pan (-1 left .. 1 right) and gain for a sound at `source` heard
+// from `listener`.
+export const spatialize = (source: Position, listener: Position) => {
+  const dx = source.x - listener.x;
+  const dy = source.y - listener.y;
+  const distance = Math.hypot(dx, dy);
+  return {
+    pan: Math.max(-1, Math.min(1, dx / PAN_DISTANCE)),
+    gain: Math.max(MIN_DISTANCE_GAIN, 1 - distance / HEARING_DISTANCE),
+  };
+};
+
+// Web Audio playback for the game driver. Every sound is fetched and decoded
+// up front so it starts instantly and any number of copies can overlap. The
+// context starts suspended until the page has seen a user gesture; playing a
+// sound after that resumes it.
+export const createAudioEngine = (
+  sounds: Record<string, SoundDefinition>
+): AudioEngine => {
+  const context = new AudioContext();
+  const master = context.createGain();
+  master.connect(context.destination);
+
+  const buses = {} as Record<AudioBus, GainNode>;
+  for (const bus of AUDIO_BUSES) {
+    buses[bus] = context.createGain();
+    buses[bus].gain.value = DEFAULT_BUS_VOLUMES[bus];
+    buses[bus].connect(master);
+  }
+
+  const buffers: Record<string, AudioBuffer> = {};
+  for (const [name, { src }] of Object.entries(sounds)) {
+    fetch(src)
+      .then((response) => response.arrayBuffer())
+      .then((data) => context.decodeAudioData(data))
+      .then((buffer) => {
+        buffers[name] = buffer;
+      })
+      .catch((err) => console.error(`Error loading ${name} sound:`, err));
+  }
+
+  return {
+    play: (name, { position, listener, delay = 0 } = {}) => {
+      const definition = sounds[name];
+      const buffer = buffers[name];
+      if (!definition || !buffer) return;
+      if (context.state === "suspended") void context.resume();
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = definition.playbackRate ?? 1;
+
+      const gain = context.createGain();
+      const panner = context.createStereoPanner();
+      if (position && listener) {
+        const spatial = spatialize(position, listener);
+        gain.gain.value = spatial.gain;
+        panner.pan.value = spatial.pan;
+      }
+
+      source.connect(gain).connect(panner).connect(buses[definition.bus]);
+      source.start(context.currentTime + delay);
+    },
+    setVolumes: (volumes) => {
+      for (const bus of AUDIO_BUSES) {
+        buses[bus].gain.setValueAtTime(volumes[bus], context.currentTime);
+      }
+    },
+    setMuted: (muted) => {
+      master.gain.setValueAtTime(muted ? 0 : 1, context.currentTime);
+    },
+    close: () => {
+      void context.close();
+    },
+  };
+};
@@ -0,0 +1,245 @@
+import cakeSprite from "../assets/cake-sprite.svg";
+import coffeeSprite from "../assets/coffee-sprite.png";
+import coffeeSfx from "../assets/coffeemachine.flac";
+import computerDamageSfx from "../assets/computer-damage.flac";
+import computerDamagedSprite from "../assets/computer-damaged-sprite.png";
+import computerSprite from "../assets/computer-sprite.png";
+import coworkerPiedSfx from "../assets/coworker-pied.flac";
+import coworkerPiedSprite from "../assets/coworker-pied-sprite.png";
+import coworkerSprite from "../assets/coworker-sprite.png";
+import expenseReportSprite from "../assets/expense-report-sprite.svg";
+import hrPardonSprite from "../assets/hr-pardon-sprite.svg";
+import magnetSprite from "../assets/magnet-sprite.svg";
+import meetingSprite from "../assets/meeting-sprite.svg";
+import paintCanSprite from "../assets/paint-can-sprite.svg";
+import rubberBandsSprite from "../assets/rubber-bands-sprite.svg";
+import whiteboardPaintedSfx from "../assets/whiteboard-painted.flac";
+import whiteboardPaintedSprite from "../assets/whiteboard-painted-sprite.png";
+import whiteboardSprite from "../assets/whiteboard-sprite.png";
+import { PowerUpType } from "./powerups";
+import { ThrowableType } from "./throwables";
+
+export interface CollectibleDefinition {
+  // Shown in the level editor and its problem list
+  label: string;
+  // Marks this item in ASCII level files
+  glyph: string;
+  sprite: string;
+  // Shown while the item is damaged
+  damagedSprite?: string;
+  // Played when the player uses the action key on it
+  sound: string;
+  // "vandalize" damages the item and drops coins; "powerUp" uses it up for
+  // its power-up; "carry" puts it in the player's hotbar to throw later
+  effect: "vandalize" | "powerUp" | "carry";
+  // The power-up granted, for "powerUp" items
+  powerUp?: PowerUpType;
+  // What goes in the hotbar, for "carry" items
+  throwable?: ThrowableType;
+  // Coins dropped when vandalised
+  coinYield: number;
+  // What vandalising it is called in level objectives ("Smash 4 computers")
+  verb: string;
+  // How many cells of open floor the interaction can be heard across
+  noise: number;
+  // Seconds the damaged state lasts
+  damageDuration: number;
+  // Once the damage timer runs out the item is fixed up or gone for good
+  afterDamage: "revert" | "disappear";
+  // How many are scattered around a generated office
+  officeCount: number;
+  // Relative chance of an executive dropping one (0 = never)
+  spawnWeight: number;
+  // Whether other static items keep their sprites clear of this one
+  blocksPlacement: boolean;
+}
+
+// Every vandalism target and pick-up in the office. Adding a new one is a
+// matter of adding an entry (and its art) here.
+const definitions = {
+  computer: {
+    label: "Computer",
+    glyph: "C",
+    sprite: computerSprite,
+    damagedSprite: computerDamagedSprite,
+    sound: computerDamageSfx,
+    effect: "vandalize",
+    coinYield: 3,
+    verb: "Smash",
+    noise: 14,
+    damageDuration: 3,
+    afterDamage: "disappear",
+    officeCount: 12,
+    spawnWeight: 1,
+    blocksPlacement: true,
+  },
+  wall: {
+    label: "Whiteboard",
+    glyph: "W",
+    sprite: whiteboardSprite,
+    damagedSprite: whiteboardPaintedSprite,
+    sound: whiteboardPaintedSfx,
+    effect: "vandalize",
+    coinYield: 3,
+    verb: "Paint",
+    noise: 6,
+    damageDuration: 3,
+    afterDamage: "disappear",
+    officeCount: 8,
+    spawnWeight: 1,
+    blocksPlacement: true,
+  },
+  coworker: {
+    label: "Coworker",
+    glyph: "K",
+    sprite: coworkerSprite,
+    damagedSprite: coworkerPiedSprite,
+    sound: coworkerPiedSfx,
+    effect: "vandalize",
+    coinYield: 3,
+    verb: "Pie",
+    noise: 10,
+    damageDuration: 5,
+    afterDamage: "revert",
+    officeCount: 6,
+    spawnWeight: 0,
+    blocksPlacement: true,
+  },
+  coffee: {
+    label: "Coffee machine",
+    glyph: "M",
+    sprite: coffeeSprite,
+    sound: coffeeSfx,
+    effect: "powerUp",
+    powerUp: "speedBoost",
+    coinYield: 0,
+    verb: "Drink from",
+    noise: 4,
+    damageDuration: 0,
+    afterDamage: "disappear",
+    officeCount: 1,
+    spawnWeight: 1,
+    blocksPlacement: false,
+  },
+  // Power-ups that only ever turn up when an executive drops them
+  expenseReport: {
+    label: "Expense report",
+    glyph: "R",
+    sprite: expenseReportSprite,
+    sound: coffeeSfx,
+    effect: "powerUp",
+    powerUp: "invisibility",
+    coinYield: 0,
+    verb: "Hide behind",
+    noise: 0,
+    damageDuration: 0,
+    afterDamage: "disappear",
+    officeCount: 0,
+    spawnWeight: 0.3,
+    blocksPlacement: false,
+  },
+  magnet: {
+    label: "Coin magnet",
+    glyph: "G",
+    sprite: magnetSprite,
+    sound: coffeeSfx,
+    effect: "powerUp",
+    powerUp: "magnet",
+    coinYield: 0,
+    verb: "Grab",
+    noise: 0,
+    damageDuration: 0,
+    afterDamage: "disappear",
+    officeCount: 0,
+    spawnWeight: 0.3,
+    blocksPlacement: false,
+  },
+  meeting: {
+    label: "All-hands invite",
+    glyph: "A",
+    sprite: meetingSprite,
+    sound: coffeeSfx,
+    effect: "powerUp",
+    powerUp: "freeze",
+    coinYield: 0,
+    verb: "Send",
+    noise: 0,
+    damageDuration: 0,
+    afterDamage: "disappear",
+    officeCount: 0,
+    spawnWeight: 0.2,
+    blocksPlacement: false,
+  },
+  hrPardon: {
+    label: "HR pardon",
+    glyph: "H",
+    sprite: hrPardonSprite,
+    sound: coffeeSfx,
+    effect: "powerUp",
+    powerUp: "extraLife",
+    coinYield: 0,
+    verb: "Grab",
+    noise: 0,
+    damageDuration: 0,
+    afterDamage: "disappear",
+    officeCount: 0,
+    spawnWeight: 0.1,
+    blocksPlacement: false,
+  },
+  // Throwables, picked up into the hotbar
+  cake: {
+    label: "Cake",
+    glyph: "B",
+    sprite: cakeSprite,
+    sound: coffeeSfx,
+    effect: "carry",
+    throwable: "cake",
+    coinYield: 0,
+    verb: "Pick up",
+    noise: 0,
+    damageDuration: 0,
+    afterDamage: "disappear",
+    officeCount: 2,
+    spawnWeight: 0.3,
+    blocksPlacement: false,
+  },
+  paintCan: {
+    label: "Paint can",
+    glyph: "N",
+    sprite: paintCanSprite,
+    sound: coffeeSfx,
+    effect: "carry",
+    throwable: "paintCan",
+    coinYield: 0,
+    verb: "Pick up",
+    noise: 0,
+    damageDuration: 0,
+    afterDamage: "disappear",
+    officeCount: 2,
+    spawnWeight: 0.3,
+    blocksPlacement: false,
+  },
+  rubberBands: {
+    label: "Rubber bands",
+    glyph: "O",
+    sprite: rubberBandsSprite,
+    sound: coffeeSfx,
+    effect: "carry",
+    throwable: "rubberBand",
+    coinYield: 0,
+    verb: "Pick up",
+    noise: 0,
+    damageDuration: 0,
+    afterDamage: "disappear",
+    officeCount: 2,
+    spawnWeight: 0.4,
+    blocksPlacement: false,
+  },
+} satisfies Record<string, CollectibleDefinition>;
+
+export type ItemType = keyof typeof definitions;
+
+export const COLLECTIBLE_TYPES: Record<ItemType, CollectibleDefinition> =
+  definitions;
+
+export const ITEM_TYPES = Object.keys(COLLECTIBLE_TYPES) as ItemType[];
@@ -0,0 +1,83 @@
+export const MAZE_WIDTH = 40;
+export const MAZE_HEIGHT = 24;
+
+// The player always spawns in the centre of the maze; the generator keeps a
+// 3-wide "plus" of open corridor around it.
+export const PLAYER_SPAWN_X = MAZE_WIDTH / 2;
+export const PLAYER_SPAWN_Y = MAZE_HEIGHT / 2;
+
+// The simulation advances in fixed steps of this many seconds, regardless of
+// how often the browser paints. All durations below are in seconds and all
+// speeds in cells per second.
+export const FIXED_TIMESTEP = 1 / 60;
+
+// Power-up effects
+export const SPEED_BOOST_DURATION = 3;
+export const INVISIBILITY_DURATION = 5;
+export const MAGNET_DURATION = 6;
+export const MAGNET_RADIUS = 6; // Cells
+export const MAGNET_SPEED = 12; // Coins fly in this fast
+export const ALL_HANDS_DURATION = 4;
+export const SCARED_DURATION = 3;
+// How many cells of open floor an executive's kick-me yelp carries
+export const KICKME_NOISE = 8;
+export const PLAYER_SPEED = 9; // Much slower movement
+// Calm executives take half-cell steps at random moments, on average this
+// many per second at level 1 (~30% more per level)
+export const EXECUTIVE_BASE_STEP_RATE = 3;
+export const EXECUTIVE_STEP = 0.5;
+export const EXECUTIVE_FLEE_SPEED = 60; // Scared executives bolt away
+// Executive AI. Alerted executives walk their A* path at these speeds,
+// scaled by their profile.
+export const EXECUTIVE_CHASE_SPEED = 6;
+export const EXECUTIVE_SEARCH_SPEED = 3;
+export const EXECUTIVE_RETURN_SPEED = 2;
+export const EXECUTIVE_SUSPICIOUS_DURATION = 0.75; // Minimum stare at a glimpse
+export const EXECUTIVE_SEARCH_DURATION = 4; // Looking around the last sighting
+export const EXECUTIVE_LOOK_INTERVAL = 0.8; // Turns while searching
+export const EXECUTIVE_REPLAN_INTERVAL = 0.25; // Chase path refresh
+export const EXECUTIVE_CATCH_DISTANCE = 1; // Physical contact
+export const EXECUTIVE_CAMP_DURATION = 6; // Campers linger this long
+export const EXECUTIVE_AMBUSH_LEAD = 4; // Cells ahead of the player
+export const EXECUTIVE_AMBUSH_REPLAN_INTERVAL = 1;
+export const EXECUTIVE_STANDUP_RADIUS = 2; // Cells from the stand-up spot
+// Suspicion meter (0..1) per executive: fills at up to this rate while the
+// player is in view, drains while they aren't. Executives give chase once it
+// is half full, and a full meter is an HR violation.
+export const DETECTION_FILL_RATE = 0.8;
+export const DETECTION_DRAIN_RATE = 0.25;
+export const DETECTION_CHASE_THRESHOLD = 0.5;
+// Vandalism and kick-me signs within COMBO_WINDOW seconds of each other
+// chain into a combo; the nth hit in a row multiplies its coins by n, up to
+// COMBO_MAX_MULTIPLIER
+export const COMBO_WINDOW = 4;
+export const COMBO_MAX_MULTIPLIER = 5;
+export const INVINCIBILITY_DURATION = 2;
+// After hiding, the player has to spend this long out in the open before
+// hiding again
+export const HIDE_COOLDOWN = 6;
+// Carried throwables: hotbar slots (number keys 1 to HOTBAR_SIZE), and how
+// close a projectile has to pass to the centre of its target to hit it
+export const HOTBAR_SIZE = 3;
+export const PROJECTILE_HIT_RADIUS = 1;
+export const CATCH_COOLDOWN = 0.5;
+export const COIN_EXPIRE_DURATION = 3;
+export const COIN_BOUNCE_DURATION = 0.5;
+export const COIN_POP_DURATION = 1 / 6;
+export const EXECUTIVE_DROP_INTERVAL = 3;
+export const MAX_DROPPED_ITEMS = 15; // Maximum number of droppable items that can exist at once
+// Versus mode: the vandal wins by lasting this long against the executive
+// player two steers
+export const VERSUS_ROUND_TIME = 180;
+// 9-to-5 mode: seconds the workday from 9 AM to 5 PM takes to play out, and
+// points for every office minute survived, added when the run ends
+export const WORKDAY_LENGTH = 240;
+export const WORKDAY_BONUS_PER_MINUTE = 2;
+
+// Collision box shared by the player, executives and static collectibles.
+// Sprites are ~2.5x2.5 blocks: they extend 0.75 blocks to the left/top and
+// 1.75 blocks to the right/bottom of their grid position.
+export const SPRITE_LEFT_OFFSET = 0.75;
+export const SPRITE_RIGHT_OFFSET = 1.75;
+export const SPRITE_TOP_OFFSET = 0.75;
+export const SPRITE_BOTTOM_OFFSET = 1.75;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  cleanInitials,
+  currentStreak,
+  dailyShift,
+  dateKey,
+  playedToday,
+  recordAttempt,
+} from "./daily";
+import { MAZE_GENERATORS } from "./generators";
+
+describe("dailyShift", () => {
+  it("gives everyone the same office all day", () => {
+    const morning = dailyShift(new Date("2026-03-14T00:00:00Z"));
+    const night = dailyShift(new Date("2026-03-14T23:59:59Z"));
+    expect(night).toEqual(morning);
+    expect(morning.date).toBe("2026-03-14");
+    expect(MAZE_GENERATORS.map((g) => g.id)).toContain(morning.layout);
+  });
+
+  it("moves on to a new office the next day", () => {
+    const today = dailyShift(new Date("2026-03-14T12:00:00Z"));
+    const tomorrow = dailyShift(new Date("2026-03-15T12:00:00Z"));
+    expect(tomorrow.seed).not.toBe(today.seed);
+  });
+
+  it("turns days over at midnight UTC", () => {
+    // Late evening in New York is already tomorrow in UTC
+    expect(dateKey(new Date("2026-03-14T23:30:00-05:00"))).toBe("2026-03-15");
+  });
+});
+
+describe("streaks", () => {
+  const played = (lastPlayed: string, streak: number) => ({
+    lastPlayed,
+    streak,
+  });
+
+  it("starts a streak on a first attempt", () => {
+    expect(recordAttempt(undefined, "2026-03-14")).toEqual(
+      played("2026-03-14", 1)
+    );
+  });
+
+  it("extends a streak played the day before", () => {
+    expect(recordAttempt(played("2026-02-28", 4), "2026-03-01")).toEqual(
+      played("2026-03-01", 5)
+    );
+  });
+
+  it("starts over after a missed day", () => {
+    expect(recordAttempt(played("2026-03-12", 4), "2026-03-14")).toEqual(
+      played("2026-03-14", 1)
+    );
+  });
+
+  it("counts a second attempt on the same day once", () => {
+    const profile = played("2026-03-14", 3);
+    expect(recordAttempt(profile, "2026-03-14")).toBe(profile);
+  });
+
+  it("keeps a streak alive until a day is missed", () => {
+    const profile = played("2026-03-14", 3);
+    expect(currentStreak(profile, "2026-03-14")).toBe(3);
+    expect(currentStreak(profile, "2026-03-15")).toBe(3);
+    expect(currentStreak(profile, "2026-03-16")).toBe(0);
+    expect(currentStreak(undefined, "2026-03-14")).toBe(0);
+  });
+
+  it("knows whether today's shift is done", () => {
+    const profile = played("2026-03-14", 1);
+    expect(playedToday(profile, "2026-03-14")).toBe(true);
+    expect(playedToday(profile, "2026-03-15")).toBe(false);
+    expect(playedToday(undefined, "2026-03-14")).toBe(false);
+  });
+});
+
+describe("cleanInitials", () => {
+  it("keeps up to three capital letters, padded out", () => {
+    expect(cleanInitials("abc")).toBe("ABC");
+    expect(cleanInitials("j.d")).toBe("JD_");
+    expect(cleanInitials("Alexander")).toBe("ALE");
+    expect(cleanInitials("")).toBe("___");
+  });
+});
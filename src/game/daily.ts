@@ -0,0 +1,73 @@
+import { MAZE_GENERATORS } from "./generators";
+import { parseSeed } from "./random";
+
+// Daily Shift: one office a day, the same for everyone. The date picks the
+// seed (and so the maze, collectibles and executives) and the layout. Days
+// turn over at midnight UTC so players in different time zones agree on
+// what "today" is.
+
+export interface DailyShift {
+  // YYYY-MM-DD, UTC
+  date: string;
+  seed: number;
+  // Maze generator id
+  layout: string;
+}
+
+// A local player's record of daily shifts
+export interface DailyProfile {
+  // Date of their last scored attempt
+  lastPlayed: string;
+  // Consecutive days played, up to and including lastPlayed
+  streak: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const dayBefore = (key: string) =>
+  dateKey(new Date(Date.parse(`${key}T00:00:00Z`) - DAY_MS));
+
+export const dailyShift = (date = new Date()): DailyShift => {
+  const key = dateKey(date);
+  const seed = parseSeed(`daily-shift-${key}`);
+  return {
+    date: key,
+    seed,
+    layout: MAZE_GENERATORS[seed % MAZE_GENERATORS.length].id,
+  };
+};
+
+// Profiles and both score tables are keyed by initials, cleaned the same way
+export const cleanInitials = (text: string) =>
+  text
+    .toUpperCase()
+    .replace(/[^A-Z]/g, "")
+    .slice(0, 3)
+    .padEnd(3, "_");
+
+// A scored attempt on `date`: extends the streak when the profile played the
+// day before, otherwise starts a new one
+export const recordAttempt = (
+  profile: DailyProfile | undefined,
+  date: string
+): DailyProfile => {
+  if (profile?.lastPlayed === date) return profile;
+  const continues = profile?.lastPlayed === dayBefore(date);
+  return { lastPlayed: date, streak: continues ? profile.streak + 1 : 1 };
+};
+
+// The streak as it stands on `date`: still alive if they played today or
+// yesterday, gone once a day is missed
+export const currentStreak = (
+  profile: DailyProfile | undefined,
+  date: string
+) =>
+  profile &&
+  (profile.lastPlayed === date || profile.lastPlayed === dayBefore(date))
+    ? profile.streak
+    : 0;
+
+export const playedToday = (profile: DailyProfile | undefined, date: string) =>
+  profile?.lastPlayed === date;
@@ -0,0 +1,98 @@
+import { MAZE_HEIGHT, MAZE_WIDTH } from "../constants";
+import { createBorderedGrid, MazeGenerator } from "../maze";
+import { Random, shuffle } from "../random";
+
+// Cells are 3x3 open blocks separated by 1-cell walls, so every corridor is
+// wide enough for a sprite.
+const CELL_PITCH = 4;
+const CELL_OPEN = 3;
+// Chance of knocking out an extra wall between neighbouring cells, turning
+// the perfect maze into one with loops so executives can't corner you.
+const BRAID_CHANCE = 0.15;
+
+// A cubicle farm: a classic depth-first "recursive backtracker" maze carved
+// through a solid floor, lightly braided.
+export const backtrackerGenerator: MazeGenerator = {
+  id: "backtracker",
+  name: "Cubicle Maze",
+  generate: (random: Random) => {
+    const m = createBorderedGrid(true);
+    const cols = Math.floor((MAZE_WIDTH - 1) / CELL_PITCH);
+    const rows = Math.floor((MAZE_HEIGHT - 1) / CELL_PITCH);
+
+    // Top-left grid coordinate of a maze cell's open block
+    const origin = (cx: number, cy: number) => ({
+      x: 1 + cx * CELL_PITCH,
+      y: 1 + cy * CELL_PITCH,
+    });
+
+    const carveBlock = (x: number, y: number, w: number, h: number) => {
+      for (let yy = y; yy < y + h; yy++) {
+        for (let xx = x; xx < x + w; xx++) {
+          if (xx > 0 && xx < MAZE_WIDTH - 1 && yy > 0 && yy < MAZE_HEIGHT - 1) {
+            m[yy][xx] = false;
+          }
+        }
+      }
+    };
+
+    // Open the wall between two orthogonally adjacent cells
+    const carveBetween = (ax: number, ay: number, bx: number, by: number) => {
+      const a = origin(Math.min(ax, bx), Math.min(ay, by));
+      if (ax !== bx) {
+        carveBlock(a.x + CELL_OPEN, a.y, 1, CELL_OPEN);
+      } else {
+        carveBlock(a.x, a.y + CELL_OPEN, CELL_OPEN, 1);
+      }
+    };
+
+    const visited: boolean[][] = Array(rows)
+      .fill(0)
+      .map(() => Array(cols).fill(false));
+    const stack = [
+      { x: Math.floor(random() * cols), y: Math.floor(random() * rows) },
+    ];
+    visited[stack[0].y][stack[0].x] = true;
+
+    while (stack.length > 0) {
+      const current = stack[stack.length - 1];
+      const { x, y } = origin(current.x, current.y);
+      carveBlock(x, y, CELL_OPEN, CELL_OPEN);
+
+      const next = shuffle(
+        [
+          { x: current.x + 1, y: current.y },
+          { x: current.x - 1, y: current.y },
+          { x: current.x, y: current.y + 1 },
+          { x: current.x, y: current.y - 1 },
+        ],
+        random
+      ).find(
+        (n) =>
+          n.x >= 0 && n.x < cols && n.y >= 0 && n.y < rows && !visited[n.y][n.x]
+      );
+
+      if (next) {
+        visited[next.y][next.x] = true;
+        carveBetween(current.x, current.y, next.x, next.y);
+        stack.push(next);
+      } else {
+        stack.pop();
+      }
+    }
+
+    // Braid: knock out a few extra walls to create loops
+    for (let cy = 0; cy < rows; cy++) {
+      for (let cx = 0; cx < cols; cx++) {
+        if (cx + 1 < cols && random() < BRAID_CHANCE) {
+          carveBetween(cx, cy, cx + 1, cy);
+        }
+        if (cy + 1 < rows && random() < BRAID_CHANCE) {
+          carveBetween(cx, cy, cx, cy + 1);
+        }
+      }
+    }
+
+    return m;
+  },
+};
@@ -0,0 +1,210 @@
+import {
+  MAZE_HEIGHT,
+  MAZE_WIDTH,
+  PLAYER_SPAWN_X,
+  PLAYER_SPAWN_Y,
+} from "../constants";
+import { createBorderedGrid, isPlayerSpawnArea, MazeGenerator } from "../maze";
+import { Random } from "../random";
+
+// The original office layout: a sparse lattice of wall stubs plus a few fixed
+// rooms, with every other wall segment knocked out and thick walls thinned.
+export const classicGenerator: MazeGenerator = {
+  id: "classic",
+  name: "Classic Office",
+  generate: (random: Random) => {
+    // Outer walls: solid 1-cell-thick border all the way around
+    const m = createBorderedGrid(false);
+
+    // Internal maze walls
+    // We generate a "coarse" maze and then project it onto the full grid.
+    // Here we keep the coarse grid at the same resolution as the fine grid,
+    // and control sparsity via the step sizes in the loops below.
+    const COARSE_WIDTH = MAZE_WIDTH;
+    const COARSE_HEIGHT = MAZE_HEIGHT;
+    const coarse: boolean[][] = Array(COARSE_HEIGHT)
+      .fill(0)
+      .map(() => Array(COARSE_WIDTH).fill(false));
+
+    const spawnCoarseX = PLAYER_SPAWN_X;
+    const spawnCoarseY = PLAYER_SPAWN_Y;
+    const isSpawnAreaCoarse = (x: number, y: number) => {
+      return x === spawnCoarseX || y === spawnCoarseY;
+    };
+
+    // Outer walls on coarse grid
+    for (let x = 0; x < COARSE_WIDTH; x++) {
+      if (!isSpawnAreaCoarse(x, 0)) {
+        coarse[0][x] = true;
+      }
+      if (!isSpawnAreaCoarse(x, COARSE_HEIGHT - 1)) {
+        coarse[COARSE_HEIGHT - 1][x] = true;
+      }
+    }
+    for (let y = 0; y < COARSE_HEIGHT; y++) {
+      if (!isSpawnAreaCoarse(0, y)) {
+        coarse[y][0] = true;
+      }
+      if (!isSpawnAreaCoarse(COARSE_WIDTH - 1, y)) {
+        coarse[y][COARSE_WIDTH - 1] = true;
+      }
+    }
+
+    // Coarse internal walls (same pattern as original smaller maze, but sparser)
+    // Vertical walls on coarse grid
+    for (let y = 2; y < COARSE_HEIGHT - 2; y += 3) {
+      for (let x = 3; x < COARSE_WIDTH - 3; x += 4) {
+        if (!isSpawnAreaCoarse(x, y)) {
+          coarse[y][x] = true;
+        }
+        if (!isSpawnAreaCoarse(x, y + 1) && random() > 0.3) {
+          coarse[y + 1][x] = true;
+        }
+      }
+    }
+
+    // Horizontal walls on coarse grid
+    for (let x = 2; x < COARSE_WIDTH - 2; x += 3) {
+      for (let y = 4; y < COARSE_HEIGHT - 4; y += 4) {
+        if (!isSpawnAreaCoarse(x, y)) {
+          coarse[y][x] = true;
+        }
+        if (!isSpawnAreaCoarse(x + 1, y) && random() > 0.3) {
+          coarse[y][x + 1] = true;
+        }
+      }
+    }
+
+    // Coarse room-like structures
+    const rooms = [
+      { x: 5, y: 4, w: 3, h: 2 },
+      { x: 13, y: 2, w: 4, h: 2 },
+      { x: 3, y: 9, w: 3, h: 2 },
+      { x: 14, y: 9, w: 4, h: 2 },
+    ];
+
+    rooms.forEach((room) => {
+      const overlapsSpawnRow =
+        room.y <= spawnCoarseY && room.y + room.h > spawnCoarseY;
+      const overlapsSpawnCol =
+        room.x <= spawnCoarseX && room.x + room.w > spawnCoarseX;
+
+      if (!overlapsSpawnRow && !overlapsSpawnCol) {
+        for (let x = room.x; x < room.x + room.w; x++) {
+          coarse[room.y][x] = true;
+          coarse[room.y + room.h - 1][x] = true;
+        }
+        for (let y = room.y; y < room.y + room.h; y++) {
+          coarse[y][room.x] = true;
+          coarse[y][room.x + room.w - 1] = true;
+        }
+        // Add door
+        coarse[room.y + Math.floor(room.h / 2)][room.x] = false;
+      }
+    });
+
+    // At this point, coarse walls form continuous segments. To make the maze less dense
+    // without fragmenting walls into tiny pieces, remove every other *segment*
+    // (horizontal and vertical) while keeping each remaining segment intact.
+
+    // Remove every other horizontal wall segment (internal rows/columns only).
+    for (let y = 1; y < COARSE_HEIGHT - 1; y++) {
+      let segmentIndex = 0;
+      let runStart = -1;
+      for (let x = 1; x <= COARSE_WIDTH - 1; x++) {
+        const isWall = x < COARSE_WIDTH - 1 ? coarse[y][x] : false;
+        if (isWall) {
+          if (runStart === -1) runStart = x;
+        } else if (runStart !== -1) {
+          const runEnd = x - 1;
+          const length = runEnd - runStart + 1;
+          if (length > 1) {
+            // For every other continuous segment (1-based: keep 1st, drop 2nd, keep 3rd...)
+            if (segmentIndex % 2 === 1) {
+              for (let xx = runStart; xx <= runEnd; xx++) {
+                // Never touch outer border or spawn row/column
+                if (
+                  xx === 0 ||
+                  xx === COARSE_WIDTH - 1 ||
+                  y === 0 ||
+                  y === COARSE_HEIGHT - 1 ||
+                  isSpawnAreaCoarse(xx, y)
+                ) {
+                  continue;
+                }
+                coarse[y][xx] = false;
+              }
+            }
+            segmentIndex++;
+          }
+          runStart = -1;
+        }
+      }
+    }
+
+    // Remove every other vertical wall segment (internal only).
+    for (let x = 1; x < COARSE_WIDTH - 1; x++) {
+      let segmentIndex = 0;
+      let runStart = -1;
+      for (let y = 1; y <= COARSE_HEIGHT - 1; y++) {
+        const isWall = y < COARSE_HEIGHT - 1 ? coarse[y][x] : false;
+        if (isWall) {
+          if (runStart === -1) runStart = y;
+        } else if (runStart !== -1) {
+          const runEnd = y - 1;
+          const length = runEnd - runStart + 1;
+          if (length > 1) {
+            if (segmentIndex % 2 === 1) {
+              for (let yy = runStart; yy <= runEnd; yy++) {
+                if (
+                  x === 0 ||
+                  x === COARSE_WIDTH - 1 ||
+                  yy === 0 ||
+                  yy === COARSE_HEIGHT - 1 ||
+                  isSpawnAreaCoarse(x, yy)
+                ) {
+                  continue;
+                }
+                coarse[yy][x] = false;
+              }
+            }
+            segmentIndex++;
+          }
+          runStart = -1;
+        }
+      }
+    }
+
+    // Scale coarse maze to fine grid: one coarse cell maps directly to one fine cell.
+    // This keeps all walls one-block thick in the coarse sense and makes internal walls line up cleanly.
+    for (let cy = 0; cy < COARSE_HEIGHT; cy++) {
+      for (let cx = 0; cx < COARSE_WIDTH; cx++) {
+        if (!coarse[cy][cx]) continue;
+        const fx = cx;
+        const fy = cy;
+        if (
+          fx >= 0 &&
+          fx < MAZE_WIDTH &&
+          fy >= 0 &&
+          fy < MAZE_HEIGHT &&
+          !isPlayerSpawnArea(fx, fy)
+        ) {
+          m[fy][fx] = true;
+        }
+      }
+    }
+
+    // Thin any "thick" internal walls: if we find a 2x2 block of walls, knock out one
+    // cell so that internal walls are at most 1 block thick visually.
+    for (let y = 1; y < MAZE_HEIGHT - 1; y++) {
+      for (let x = 1; x < MAZE_WIDTH - 1; x++) {
+        if (m[y][x] && m[y][x + 1] && m[y + 1][x] && m[y + 1][x + 1]) {
+          // Clear the bottom-right cell of this 2x2 wall block.
+          m[y + 1][x + 1] = false;
+        }
+      }
+    }
+
+    return m;
+  },
+};
@@ -0,0 +1,87 @@
+import { MAZE_HEIGHT, MAZE_WIDTH } from "../constants";
+import { createBorderedGrid, MazeGenerator } from "../maze";
+import { Random } from "../random";
+
+interface Room {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const ROOM_ATTEMPTS = 60;
+const MAX_ROOMS = 9;
+
+// An office floorplan: rectangular rooms (meeting rooms, open offices)
+// scattered over a solid floor and joined in sequence by 3-wide hallways.
+export const floorplanGenerator: MazeGenerator = {
+  id: "floorplan",
+  name: "Office Floorplan",
+  generate: (random: Random) => {
+    const m = createBorderedGrid(true);
+    const randomInt = (min: number, max: number) =>
+      min + Math.floor(random() * (max - min + 1));
+
+    const carve = (x: number, y: number) => {
+      if (x > 0 && x < MAZE_WIDTH - 1 && y > 0 && y < MAZE_HEIGHT - 1) {
+        m[y][x] = false;
+      }
+    };
+
+    // Place non-overlapping rooms, keeping a 1-cell wall between them
+    const rooms: Room[] = [];
+    for (
+      let attempt = 0;
+      attempt < ROOM_ATTEMPTS && rooms.length < MAX_ROOMS;
+      attempt++
+    ) {
+      const w = randomInt(5, 10);
+      const h = randomInt(4, 7);
+      const room = {
+        x: randomInt(1, MAZE_WIDTH - 1 - w),
+        y: randomInt(1, MAZE_HEIGHT - 1 - h),
+        w,
+        h,
+      };
+      const overlaps = rooms.some(
+        (other) =>
+          room.x <= other.x + other.w &&
+          room.x + room.w >= other.x &&
+          room.y <= other.y + other.h &&
+          room.y + room.h >= other.y
+      );
+      if (!overlaps) rooms.push(room);
+    }
+
+    for (const room of rooms) {
+      for (let y = room.y; y < room.y + room.h; y++) {
+        for (let x = room.x; x < room.x + room.w; x++) {
+          carve(x, y);
+        }
+      }
+    }
+
+    // Join each room to the next with a 3-wide L-shaped hallway, randomly
+    // choosing whether to go horizontal or vertical first.
+    const center = (room: Room) => ({
+      x: room.x + Math.floor(room.w / 2),
+      y: room.y + Math.floor(room.h / 2),
+    });
+    for (let i = 1; i < rooms.length; i++) {
+      const a = center(rooms[i - 1]);
+      const b = center(rooms[i]);
+      const horizontalFirst = random() < 0.5;
+      const cornerX = horizontalFirst ? b.x : a.x;
+      const cornerY = horizontalFirst ? a.y : b.y;
+
+      for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) {
+        for (let d = -1; d <= 1; d++) carve(x, cornerY + d);
+      }
+      for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) {
+        for (let d = -1; d <= 1; d++) carve(cornerX + d, y);
+      }
+    }
+
+    return m;
+  },
+};
@@ -0,0 +1,30 @@
+import { MazeGenerator } from "../maze";
+import { backtrackerGenerator } from "./backtracker";
+import { classicGenerator } from "./classic";
+import { floorplanGenerator } from "./floorplan";
+import { openPlanGenerator } from "./openPlan";
+
+export const MAZE_GENERATORS: MazeGenerator[] = [
+  classicGenerator,
+  backtrackerGenerator,
+  floorplanGenerator,
+  openPlanGenerator,
+];
+
+// Pseudo-generator id: pick a different generator for each seniority level.
+export const ROTATE_BY_LEVEL = "rotate";
+
+export const DEFAULT_MAZE_GENERATOR = classicGenerator.id;
+
+// Resolve a layout choice (a generator id or ROTATE_BY_LEVEL) for a level.
+// Unknown ids fall back to the classic office.
+export const resolveMazeGenerator = (
+  choice: string,
+  level: number
+): MazeGenerator => {
+  if (choice === ROTATE_BY_LEVEL) {
+    const index = (Math.max(1, level) - 1) % MAZE_GENERATORS.length;
+    return MAZE_GENERATORS[index];
+  }
+  return MAZE_GENERATORS.find((g) => g.id === choice) ?? classicGenerator;
+};
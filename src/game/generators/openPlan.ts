@@ -0,0 +1,47 @@
+import { MAZE_HEIGHT, MAZE_WIDTH } from "../constants";
+import { createBorderedGrid, MazeGenerator } from "../maze";
+import { Random } from "../random";
+
+const INITIAL_WALL_CHANCE = 0.38;
+const SMOOTHING_PASSES = 4;
+
+// An open-plan floor: a cellular automaton grows organic clumps of desks and
+// partitions out of random noise, leaving wide irregular open areas.
+export const openPlanGenerator: MazeGenerator = {
+  id: "openPlan",
+  name: "Open Plan",
+  generate: (random: Random) => {
+    let m = createBorderedGrid(false);
+    for (let y = 1; y < MAZE_HEIGHT - 1; y++) {
+      for (let x = 1; x < MAZE_WIDTH - 1; x++) {
+        m[y][x] = random() < INITIAL_WALL_CHANCE;
+      }
+    }
+
+    // Count walls among the 8 neighbours; the outside counts as wall
+    const wallNeighbours = (grid: boolean[][], x: number, y: number) => {
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          if (grid[y + dy]?.[x + dx] ?? true) count++;
+        }
+      }
+      return count;
+    };
+
+    // Smooth: crowded cells become walls, isolated ones open up
+    for (let pass = 0; pass < SMOOTHING_PASSES; pass++) {
+      const next = createBorderedGrid(false);
+      for (let y = 1; y < MAZE_HEIGHT - 1; y++) {
+        for (let x = 1; x < MAZE_WIDTH - 1; x++) {
+          const n = wallNeighbours(m, x, y);
+          next[y][x] = n >= 5 ? true : n <= 3 ? false : m[y][x];
+        }
+      }
+      m = next;
+    }
+
+    return m;
+  },
+};
@@ -0,0 +1,60 @@
+import { HidingSpot, Position } from "./types";
+
+export interface HidingSpotDefinition {
+  // Shown in the level editor and its problem list
+  label: string;
+  // Marks this spot in ASCII level files
+  glyph: string;
+  // Drawn in this colour by the renderer and the editor
+  color: string;
+  // Seconds the player can stay hidden before being spotted anyway
+  duration: number;
+  // How many are scattered around a generated office
+  officeCount: number;
+}
+
+// Places to duck out of sight. Executives can't see a hidden player, but the
+// player can't act or pick up coins while hiding, and each stay is limited.
+const definitions = {
+  cubicle: {
+    label: "Empty cubicle",
+    glyph: "U",
+    color: "#8a8fa8",
+    duration: 5,
+    officeCount: 3,
+  },
+  plant: {
+    label: "Potted plant",
+    glyph: "Y",
+    color: "#2ecc71",
+    duration: 3,
+    officeCount: 4,
+  },
+  closet: {
+    label: "Supply closet",
+    glyph: "S",
+    color: "#c68642",
+    duration: 8,
+    officeCount: 2,
+  },
+} satisfies Record<string, HidingSpotDefinition>;
+
+export type HidingSpotType = keyof typeof definitions;
+
+export const HIDING_SPOT_TYPES: Record<HidingSpotType, HidingSpotDefinition> =
+  definitions;
+
+export const HIDING_SPOT_KINDS = Object.keys(
+  HIDING_SPOT_TYPES
+) as HidingSpotType[];
+
+// How close, in cells, the player's anchor must be to a spot's to be in it
+const HIDING_RADIUS = 0.75;
+
+// The hiding spot the player at `position` is standing in, if any
+export const findHidingSpot = (spots: HidingSpot[], position: Position) =>
+  spots.find(
+    (spot) =>
+      Math.hypot(spot.position.x - position.x, spot.position.y - position.y) <=
+      HIDING_RADIUS
+  );
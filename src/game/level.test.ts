@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import { MAZE_HEIGHT, MAZE_WIDTH } from "./constants";
+import {
+  buildOffice,
+  createBlankLevel,
+  LEVEL_GLYPHS,
+  LevelFile,
+  parseLevel,
+  validateLevel,
+} from "./level";
+import { CURATED_LEVELS } from "./levels";
+import { EXECUTIVE_ROSTER } from "./personalities";
+
+// A walled box with the player in the middle and `extras` glyphs on row 1
+const blankMap = (extras = "") => {
+  const floor = "#" + ".".repeat(MAZE_WIDTH - 2) + "#";
+  const wall = "#".repeat(MAZE_WIDTH);
+  return Array.from({ length: MAZE_HEIGHT }, (_, y) => {
+    if (y === 0 || y === MAZE_HEIGHT - 1) return wall;
+    if (y === 1) return "#" + extras + floor.slice(extras.length + 1);
+    if (y === 12) return floor.slice(0, 20) + "P" + floor.slice(21);
+    return floor;
+  });
+};
+
+const levelJson = (overrides: object = {}) =>
+  JSON.stringify({ version: 1, name: "Test", map: blankMap(), ...overrides });
+
+// zod's message for the first problem it found
+const parseError = (text: string) => {
+  try {
+    parseLevel(text);
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+  throw new Error("expected the level to be rejected");
+};
+
+describe("parseLevel", () => {
+  it("reads bare ASCII art as an untitled office", () => {
+    const level = parseLevel(blankMap("E").join("\n"));
+    expect(level.name).toBe("Untitled Office");
+    expect(level.map).toEqual(blankMap("E"));
+    expect(level.executives).toEqual([]);
+  });
+
+  it("tolerates Windows line endings and indentation", () => {
+    const text = blankMap()
+      .map((row) => `  ${row}`)
+      .join("\r\n");
+    expect(parseLevel(text).map).toEqual(blankMap());
+  });
+
+  it("reads the JSON form with its executives", () => {
+    const level = parseLevel(
+      levelJson({
+        id: "test",
+        map: blankMap("E"),
+        executives: [{ name: "Manager Mo", color: "#123456" }],
+      })
+    );
+    expect(level.id).toBe("test");
+    expect(level.executives).toEqual([
+      { name: "Manager Mo", color: "#123456" },
+    ]);
+  });
+
+  it("rejects a map with the wrong number of rows", () => {
+    expect(() => parseLevel(levelJson({ map: blankMap().slice(1) }))).toThrow();
+  });
+
+  it("rejects rows of the wrong width or with unknown glyphs", () => {
+    const short = blankMap();
+    short[3] = short[3].slice(1);
+    expect(parseError(levelJson({ map: short }))).toContain(
+      `${MAZE_WIDTH} characters`
+    );
+
+    const typo = blankMap();
+    typo[3] = "#X" + typo[3].slice(2);
+    expect(parseError(levelJson({ map: typo }))).toContain(
+      `${MAZE_WIDTH} characters`
+    );
+  });
+
+  it("needs exactly one player spawn", () => {
+    const none = blankMap().map((row) => row.replace("P", "."));
+    expect(parseError(levelJson({ map: none }))).toContain("player spawn");
+    expect(parseError(levelJson({ map: blankMap("P") }))).toContain(
+      "player spawn"
+    );
+  });
+
+  it("rejects more named executives than E spawns", () => {
+    expect(
+      parseError(
+        levelJson({
+          map: blankMap("E"),
+          executives: [
+            { name: "A", color: "#000000" },
+            { name: "B", color: "#000000" },
+          ],
+        })
+      )
+    ).toContain("More executives");
+  });
+
+  it("rejects malformed executive colours, versions and JSON", () => {
+    expect(() =>
+      parseLevel(
+        levelJson({
+          map: blankMap("E"),
+          executives: [{ name: "A", color: "red" }],
+        })
+      )
+    ).toThrow();
+    expect(() => parseLevel(levelJson({ version: 2 }))).toThrow();
+    expect(() => parseLevel("{ not json")).toThrow();
+  });
+});
+
+describe("buildOffice", () => {
+  it("turns glyphs into walls, spawns and items", () => {
+    const office = buildOffice(
+      parseLevel(levelJson({ map: blankMap("ECWKM") }))
+    );
+    expect(office.maze[0][0]).toBe(true);
+    expect(office.maze[1][1]).toBe(false);
+    expect(office.playerSpawn).toEqual({ x: 20, y: 12 });
+    expect(office.executives.map((e) => e.position)).toEqual([{ x: 1, y: 1 }]);
+    expect(
+      office.collectibles.map((c) => [c.type, c.position.x, c.position.y])
+    ).toEqual([
+      ["computer", 2, 1],
+      ["wall", 3, 1],
+      ["coworker", 4, 1],
+      ["coffee", 5, 1],
+    ]);
+  });
+
+  it("names unlisted executives from the stock roster", () => {
+    const office = buildOffice(
+      parseLevel(
+        levelJson({
+          map: blankMap("EE"),
+          executives: [{ name: "Manager Mo", color: "#123456" }],
+        })
+      )
+    );
+    expect(office.executives.map((e) => e.name)).toEqual([
+      "Manager Mo",
+      EXECUTIVE_ROSTER[1].name,
+    ]);
+  });
+});
+
+describe("validateLevel", () => {
+  // A blank office with `glyph` written over the cells in `cells`
+  const drawn = (glyph: string, cells: [number, number][]): LevelFile => {
+    const level = createBlankLevel();
+    const map = level.map.map((row) => [...row]);
+    for (const [x, y] of cells) map[y][x] = glyph;
+    return { ...level, map: map.map((row) => row.join("")) };
+  };
+
+  it("finds nothing wrong with a blank office", () => {
+    expect(validateLevel(createBlankLevel())).toEqual([]);
+  });
+
+  it("reports items walled off from the player", () => {
+    const level = drawn(LEVEL_GLYPHS.wall, [
+      [4, 3],
+      [5, 3],
+      [6, 3],
+      [4, 4],
+      [6, 4],
+      [4, 5],
+      [5, 5],
+      [6, 5],
+    ]);
+    level.map[4] = level.map[4].slice(0, 5) + "C" + level.map[4].slice(6);
+    expect(validateLevel(level)).toEqual([
+      {
+        message: "Computer at (5, 4) is unreachable",
+        position: { x: 5, y: 4 },
+      },
+    ]);
+  });
+
+  it("reports spawns too close to a wall", () => {
+    const level = drawn(LEVEL_GLYPHS.executive, [[MAZE_WIDTH - 2, 5]]);
+    const [problem] = validateLevel(level);
+    expect(problem.message).toContain("too close to a wall");
+    expect(problem.position).toEqual({ x: MAZE_WIDTH - 2, y: 5 });
+  });
+
+  it("reports executives who can't reach the player", () => {
+    // A wall across the office, a cell above the bottom corridor
+    const level = drawn(
+      LEVEL_GLYPHS.wall,
+      Array.from({ length: MAZE_WIDTH }, (_, x): [number, number] => [x, 18])
+    );
+    level.map[20] = level.map[20].slice(0, 5) + "E" + level.map[20].slice(6);
+    expect(validateLevel(level).map((p) => p.message)).toEqual([
+      `${EXECUTIVE_ROSTER[0].name} can't reach the player`,
+    ]);
+  });
+});
+
+describe("curated levels", () => {
+  it("each have an id, a player and an executive", () => {
+    for (const level of CURATED_LEVELS) {
+      expect(level.id).toBeTruthy();
+      expect(level.map.join("")).toContain(LEVEL_GLYPHS.executive);
+      expect(buildOffice(level).maze).toHaveLength(MAZE_HEIGHT);
+    }
+  });
+
+  it("pass validation", () => {
+    for (const level of CURATED_LEVELS) {
+      expect(validateLevel(level)).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,264 @@
+import { z } from "zod";
+import { COLLECTIBLE_TYPES, ITEM_TYPES, ItemType } from "./collectibles";
+import {
+  MAZE_HEIGHT,
+  MAZE_WIDTH,
+  PLAYER_SPAWN_X,
+  PLAYER_SPAWN_Y,
+} from "./constants";
+import {
+  HIDING_SPOT_KINDS,
+  HIDING_SPOT_TYPES,
+  HidingSpotType,
+} from "./hidingSpots";
+import { canSpriteMoveTo, computeReachable } from "./maze";
+import { objectiveSchema } from "./objectives";
+import {
+  EXECUTIVE_ROSTER,
+  executiveProfileSchema,
+  resolveExecutiveProfile,
+} from "./personalities";
+import { Collectible, Executive, HidingSpot, Position } from "./types";
+
+// Hand-authored offices are drawn as ASCII art, one character per grid cell:
+//
+//   #  wall             C  computer        U  empty cubicle
+//   .  floor            W  whiteboard      Y  potted plant
+//   P  player spawn     K  coworker        S  supply closet
+//   E  executive spawn  M  coffee machine
+//
+// Item glyphs come from the COLLECTIBLE_TYPES registry and hiding spot
+// glyphs from HIDING_SPOT_TYPES. Markers sit on floor cells and anchor the
+// sprite there, exactly like the positions of randomly placed items.
+export const LEVEL_GLYPHS = {
+  wall: "#",
+  floor: ".",
+  player: "P",
+  executive: "E",
+} as const;
+
+// Item type for each item glyph
+export const ITEM_GLYPHS: Record<string, ItemType> = Object.fromEntries(
+  ITEM_TYPES.map((type) => [COLLECTIBLE_TYPES[type].glyph, type])
+);
+
+// Hiding spot type for each hiding spot glyph
+export const HIDING_SPOT_GLYPHS: Record<string, HidingSpotType> =
+  Object.fromEntries(
+    HIDING_SPOT_KINDS.map((type) => [HIDING_SPOT_TYPES[type].glyph, type])
+  );
+
+// None of the glyphs are special inside a character class
+const ALL_GLYPHS = [
+  ...Object.values(LEVEL_GLYPHS),
+  ...Object.keys(ITEM_GLYPHS),
+  ...Object.keys(HIDING_SPOT_GLYPHS),
+];
+const MAP_ROW = new RegExp(`^[${ALL_GLYPHS.join("")}]{${MAZE_WIDTH}}$`);
+
+const countGlyph = (map: string[], glyph: string) =>
+  map.reduce((total, row) => total + row.split(glyph).length - 1, 0);
+
+// A level file is either bare ASCII art (stock executives) or JSON wrapping
+// the same art with a name, optional executive names and colours, and
+// optional objectives.
+export const levelSchema = z
+  .object({
+    version: z.literal(1),
+    // Stable id, used to pick the level as an office layout
+    id: z.string().min(1).optional(),
+    name: z.string().min(1),
+    map: z
+      .array(
+        z
+          .string()
+          .regex(
+            MAP_ROW,
+            `Rows must be ${MAZE_WIDTH} characters of ${ALL_GLYPHS.join(" ")}`
+          )
+      )
+      .length(MAZE_HEIGHT),
+    // Names, colours and behaviour profiles for the E spawns in reading
+    // order; spawns without an entry get the stock roster. A profile only
+    // needs the fields that differ from its patrol style's personality.
+    executives: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+          profile: executiveProfileSchema.partial().optional(),
+        })
+      )
+      .default([]),
+    // What every floor of this level asks of the player; generated from the
+    // seniority level when omitted
+    objectives: z.array(objectiveSchema).min(1).optional(),
+  })
+  .refine((level) => countGlyph(level.map, LEVEL_GLYPHS.player) === 1, {
+    message: "The map needs exactly one player spawn (P)",
+    path: ["map"],
+  })
+  .refine(
+    (level) =>
+      level.executives.length <= countGlyph(level.map, LEVEL_GLYPHS.executive),
+    {
+      message: "More executives are listed than there are E spawns",
+      path: ["executives"],
+    }
+  );
+
+export type LevelFile = z.infer<typeof levelSchema>;
+
+// Layout id recorded for worlds built from a level that isn't curated
+export const CUSTOM_LAYOUT = "custom";
+
+// Everything a level contributes to a fresh world.
+export interface Office {
+  maze: boolean[][];
+  playerSpawn: Position;
+  executives: Executive[];
+  collectibles: Collectible[];
+  hidingSpots: HidingSpot[];
+}
+
+// Parse and validate a level file's contents (JSON or bare ASCII art).
+// Throws on malformed input.
+export const parseLevel = (text: string): LevelFile => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    return levelSchema.parse(JSON.parse(trimmed));
+  }
+  return levelSchema.parse({
+    version: 1,
+    name: "Untitled Office",
+    map: trimmed.split(/\r?\n/).map((row) => row.trim()),
+  });
+};
+
+// Build the maze, spawns, collectibles and hiding spots described by a
+// validated level.
+export const buildOffice = (level: LevelFile): Office => {
+  const maze: boolean[][] = [];
+  const executives: Executive[] = [];
+  const collectibles: Collectible[] = [];
+  const hidingSpots: HidingSpot[] = [];
+  let playerSpawn: Position = { x: 0, y: 0 };
+
+  level.map.forEach((row, y) => {
+    maze.push([]);
+    [...row].forEach((glyph, x) => {
+      maze[y].push(glyph === LEVEL_GLYPHS.wall);
+
+      if (glyph === LEVEL_GLYPHS.player) {
+        playerSpawn = { x, y };
+      } else if (glyph === LEVEL_GLYPHS.executive) {
+        const i = executives.length;
+        const member =
+          level.executives[i] ?? EXECUTIVE_ROSTER[i % EXECUTIVE_ROSTER.length];
+        executives.push({
+          position: { x, y },
+          direction: { x: 1, y: 0 },
+          isScared: false,
+          scaredTimer: 0,
+          state: "patrol",
+          stateTimer: 0,
+          suspicion: 0,
+          color: member.color,
+          name: member.name,
+          profile: resolveExecutiveProfile(member.profile),
+        });
+      } else if (ITEM_GLYPHS[glyph]) {
+        collectibles.push({
+          position: { x, y },
+          type: ITEM_GLYPHS[glyph],
+          collected: false,
+        });
+      } else if (HIDING_SPOT_GLYPHS[glyph]) {
+        hidingSpots.push({
+          position: { x, y },
+          type: HIDING_SPOT_GLYPHS[glyph],
+        });
+      }
+    });
+  });
+
+  return { maze, playerSpawn, executives, collectibles, hidingSpots };
+};
+
+export interface LevelProblem {
+  message: string;
+  // Grid cell the problem is anchored to
+  position: Position;
+}
+
+// Playability checks beyond the schema: every spawn must fit a sprite, and
+// every item, hiding spot and executive must be reachable from the player spawn by the
+// same sprite-footprint BFS the random collectible placer uses.
+export const validateLevel = (level: LevelFile): LevelProblem[] => {
+  const office = buildOffice(level);
+  const { maze, playerSpawn } = office;
+  const reachable = computeReachable(maze, playerSpawn);
+  const problems: LevelProblem[] = [];
+
+  if (!canSpriteMoveTo(maze, playerSpawn.x, playerSpawn.y)) {
+    problems.push({
+      message: "Player spawn is too close to a wall",
+      position: playerSpawn,
+    });
+  }
+
+  for (const exec of office.executives) {
+    const { x, y } = exec.position;
+    if (!canSpriteMoveTo(maze, x, y)) {
+      problems.push({
+        message: `${exec.name}'s spawn is too close to a wall`,
+        position: exec.position,
+      });
+    } else if (!reachable[y][x]) {
+      problems.push({
+        message: `${exec.name} can't reach the player`,
+        position: exec.position,
+      });
+    }
+  }
+
+  for (const item of office.collectibles) {
+    const { x, y } = item.position;
+    if (!reachable[y][x]) {
+      problems.push({
+        message: `${COLLECTIBLE_TYPES[item.type].label} at (${x}, ${y}) is unreachable`,
+        position: item.position,
+      });
+    }
+  }
+
+  for (const spot of office.hidingSpots) {
+    const { x, y } = spot.position;
+    if (!reachable[y][x]) {
+      problems.push({
+        message: `${HIDING_SPOT_TYPES[spot.type].label} at (${x}, ${y}) is unreachable`,
+        position: spot.position,
+      });
+    }
+  }
+
+  return problems;
+};
+
+// An empty office: outer walls only, with the player at the usual spawn.
+export const createBlankLevel = (): LevelFile => ({
+  version: 1,
+  name: "Untitled Office",
+  map: Array.from({ length: MAZE_HEIGHT }, (_, y) =>
+    Array.from({ length: MAZE_WIDTH }, (_, x) => {
+      if (x === 0 || y === 0 || x === MAZE_WIDTH - 1 || y === MAZE_HEIGHT - 1) {
+        return LEVEL_GLYPHS.wall;
+      }
+      if (x === PLAYER_SPAWN_X && y === PLAYER_SPAWN_Y) {
+        return LEVEL_GLYPHS.player;
+      }
+      return LEVEL_GLYPHS.floor;
+    }).join("")
+  ),
+  executives: [],
+});
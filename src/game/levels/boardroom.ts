@@ -0,0 +1,58 @@
+// A walled boardroom with four doors and a fifth executive chairing the
+// meeting inside. The player starts in the west wing.
+export const boardroom = {
+  version: 1,
+  id: "boardroom",
+  name: "The Boardroom",
+  map: [
+    "########################################",
+    "#.......#......................#.......#",
+    "#.E.....#......................#.....E.#",
+    "#...C...#...M...K...C......W...#...C...#",
+    "#......................................#",
+    "#..................Y...................#",
+    "#.....U.....######....######.....U.....#",
+    "#...........#..............#...........#",
+    "#...........#..C....E...C..#...........#",
+    "######......#..............#......######",
+    "#......................................#",
+    "#........K.......######.......K........#",
+    "#..W...........W.######.W...........W..#",
+    "#......................................#",
+    "######......#.......K......#......######",
+    "#...........#..C........C..#...........#",
+    "#........P..#..............#..S..K.....#",
+    "#...........######....######...........#",
+    "#...................Y..................#",
+    "#......................................#",
+    "#...C...#...W.......C..K...M...#...C...#",
+    "#.E.....#......................#.....E.#",
+    "#.......#......................#.......#",
+    "########################################",
+  ],
+  executives: [
+    {
+      name: "Boomer Bob",
+      color: "#FF1493",
+      profile: { patrol: "wallFollower" },
+    },
+    { name: "Nostalgic Ned", color: "#FFD700", profile: { patrol: "camper" } },
+    // Holds court in the boardroom and hears every complaint
+    {
+      name: "Chairman Chuck",
+      color: "#FF8C00",
+      profile: {
+        patrol: "camper",
+        visionAngle: 40,
+        noiseReaction: "investigate",
+        hearing: 2,
+      },
+    },
+    {
+      name: "Traditional Tom",
+      color: "#00FF00",
+      profile: { patrol: "sweeper" },
+    },
+    { name: "Grumpy Greg", color: "#00FFFF", profile: { patrol: "ambusher" } },
+  ],
+};
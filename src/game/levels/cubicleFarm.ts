@@ -0,0 +1,33 @@
+// Rows of cubicles around an open centre, with the stock executives in the
+// corners.
+export const cubicleFarm = {
+  version: 1,
+  id: "cubicle-farm",
+  name: "Cubicle Farm",
+  map: [
+    "########################################",
+    "#......................................#",
+    "#.E........M........C...........K....E.#",
+    "#............U.........................#",
+    "#...##....##....##....##....##....##...#",
+    "#.W.##..C.##..C.##....##..C.##....##.W.#",
+    "#...##....##....##....##....##....##...#",
+    "#......................................#",
+    "#.......K..W.................W..K......#",
+    "#.Y....................................#",
+    "#...##....##................##....##...#",
+    "#.C.##....##........P.......##....##.C.#",
+    "#...##....##................##....##...#",
+    "#....................................Y.#",
+    "#.......C.....K.....W.....K.....C......#",
+    "#.S....................................#",
+    "#...##....##....##....##....##....##...#",
+    "#.W.##....##....##....##....##....##.W.#",
+    "#...##....##....##....##....##....##...#",
+    "#........................U.............#",
+    "#.......C.....C..K..W.....C.....C......#",
+    "#.E..........................M.......E.#",
+    "#......................................#",
+    "########################################",
+  ],
+};
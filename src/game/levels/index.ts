@@ -0,0 +1,13 @@
+import { LevelFile, levelSchema } from "../level";
+import { boardroom } from "./boardroom";
+import { cubicleFarm } from "./cubicleFarm";
+
+// Hand-authored offices shipped with the game, offered alongside the random
+// generators in the office layout picker. Validated on load like any other
+// level file.
+export const CURATED_LEVELS: LevelFile[] = [cubicleFarm, boardroom].map(
+  (level) => levelSchema.parse(level)
+);
+
+export const findCuratedLevel = (id: string) =>
+  CURATED_LEVELS.find((level) => level.id === id);
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAZE_HEIGHT,
+  MAZE_WIDTH,
+  PLAYER_SPAWN_X,
+  PLAYER_SPAWN_Y,
+} from "./constants";
+import {
+  DEFAULT_MAZE_GENERATOR,
+  MAZE_GENERATORS,
+  resolveMazeGenerator,
+  ROTATE_BY_LEVEL,
+} from "./generators";
+import {
+  computeReachable,
+  createBorderedGrid,
+  enforceMazeGuarantees,
+  generateMaze,
+} from "./maze";
+import { createRng } from "./random";
+
+// Open cells a 4-way walk from the spawn can't get to
+const unreachableCells = (maze: boolean[][]) => {
+  const seen = maze.map((row) => row.map(() => false));
+  const queue = [{ x: PLAYER_SPAWN_X, y: PLAYER_SPAWN_Y }];
+  seen[PLAYER_SPAWN_Y][PLAYER_SPAWN_X] = true;
+  while (queue.length > 0) {
+    const { x, y } = queue.shift();
+    for (const [nx, ny] of [
+      [x + 1, y],
+      [x - 1, y],
+      [x, y + 1],
+      [x, y - 1],
+    ]) {
+      if (!maze[ny][nx] && !seen[ny][nx]) {
+        seen[ny][nx] = true;
+        queue.push({ x: nx, y: ny });
+      }
+    }
+  }
+  return maze.flatMap((row, y) =>
+    row.flatMap((wall, x) => (wall || seen[y][x] ? [] : [{ x, y }]))
+  );
+};
+
+const expectGuarantees = (maze: boolean[][]) => {
+  expect(maze).toHaveLength(MAZE_HEIGHT);
+  maze.forEach((row) => expect(row).toHaveLength(MAZE_WIDTH));
+
+  // Solid outer border
+  for (let x = 0; x < MAZE_WIDTH; x++) {
+    expect(maze[0][x] && maze[MAZE_HEIGHT - 1][x]).toBe(true);
+  }
+  for (let y = 0; y < MAZE_HEIGHT; y++) {
+    expect(maze[y][0] && maze[y][MAZE_WIDTH - 1]).toBe(true);
+  }
+
+  // The spawn sits on a 3-wide plus that runs wall to wall
+  for (let d = -1; d <= 1; d++) {
+    for (let x = 1; x < MAZE_WIDTH - 1; x++) {
+      expect(maze[PLAYER_SPAWN_Y + d][x]).toBe(false);
+    }
+    for (let y = 1; y < MAZE_HEIGHT - 1; y++) {
+      expect(maze[y][PLAYER_SPAWN_X + d]).toBe(false);
+    }
+  }
+
+  // Every corner has room for an executive and a way to the spawn
+  const reachable = computeReachable(maze);
+  for (const [x, y] of [
+    [2, 2],
+    [MAZE_WIDTH - 3, 2],
+    [2, MAZE_HEIGHT - 3],
+    [MAZE_WIDTH - 3, MAZE_HEIGHT - 3],
+  ]) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        expect(maze[y + dy][x + dx]).toBe(false);
+      }
+    }
+    expect(reachable[y][x]).toBe(true);
+  }
+
+  expect(unreachableCells(maze)).toEqual([]);
+};
+
+describe("maze generators", () => {
+  for (const generator of MAZE_GENERATORS) {
+    it(`${generator.id} offices keep the shared guarantees`, () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        expectGuarantees(generateMaze(generator, createRng(seed).next));
+      }
+    });
+
+    it(`${generator.id} offices depend only on the seed`, () => {
+      expect(generateMaze(generator, createRng(3).next)).toEqual(
+        generateMaze(generator, createRng(3).next)
+      );
+    });
+  }
+});
+
+describe("enforceMazeGuarantees", () => {
+  it("opens up an office that is solid wall", () => {
+    expectGuarantees(enforceMazeGuarantees(createBorderedGrid(true)));
+  });
+
+  it("joins sealed-off rooms back to the spawn", () => {
+    const maze = createBorderedGrid(true);
+    // A 4x4 room with no door, away from the spawn plus and the corners
+    for (let y = 5; y < 9; y++) {
+      for (let x = 6; x < 10; x++) maze[y][x] = false;
+    }
+    expectGuarantees(enforceMazeGuarantees(maze));
+  });
+
+  it("walls off corridors too narrow for a sprite", () => {
+    const maze = createBorderedGrid(true);
+    for (let x = 4; x < 12; x++) maze[5][x] = false;
+    expect(enforceMazeGuarantees(maze)[5].slice(4, 12)).toEqual(
+      Array(8).fill(true)
+    );
+  });
+});
+
+describe("resolveMazeGenerator", () => {
+  it("cycles through every generator when rotating by level", () => {
+    const ids = MAZE_GENERATORS.map(
+      (_, i) => resolveMazeGenerator(ROTATE_BY_LEVEL, i + 1).id
+    );
+    expect(ids).toEqual(MAZE_GENERATORS.map((g) => g.id));
+    expect(
+      resolveMazeGenerator(ROTATE_BY_LEVEL, MAZE_GENERATORS.length + 1).id
+    ).toBe(MAZE_GENERATORS[0].id);
+  });
+
+  it("falls back to the default office for unknown ids", () => {
+    expect(resolveMazeGenerator("nope", 1).id).toBe(DEFAULT_MAZE_GENERATOR);
+  });
+});
@@ -0,0 +1,360 @@
+import {
+  MAZE_HEIGHT,
+  MAZE_WIDTH,
+  PLAYER_SPAWN_X,
+  PLAYER_SPAWN_Y,
+  SPRITE_BOTTOM_OFFSET,
+  SPRITE_LEFT_OFFSET,
+  SPRITE_RIGHT_OFFSET,
+  SPRITE_TOP_OFFSET,
+} from "./constants";
+import { Random } from "./random";
+import { Position } from "./types";
+
+// Helper function to check if a position should be excluded (player spawn row/column)
+export const isPlayerSpawnArea = (x: number, y: number) => {
+  return x === PLAYER_SPAWN_X || y === PLAYER_SPAWN_Y;
+};
+
+// Check whether a ~2.5x2.5 sprite anchored at (x, y) would overlap any wall.
+export const canSpriteStand = (maze: boolean[][], x: number, y: number) => {
+  const leftBound = x - SPRITE_LEFT_OFFSET;
+  const rightBound = x + SPRITE_RIGHT_OFFSET;
+  const topBound = y - SPRITE_TOP_OFFSET;
+  const bottomBound = y + SPRITE_BOTTOM_OFFSET;
+
+  const minGridX = Math.max(0, Math.floor(leftBound));
+  const maxGridX = Math.min(MAZE_WIDTH - 1, Math.floor(rightBound));
+  const minGridY = Math.max(0, Math.floor(topBound));
+  const maxGridY = Math.min(MAZE_HEIGHT - 1, Math.floor(bottomBound));
+
+  for (let gy = minGridY; gy <= maxGridY; gy++) {
+    for (let gx = minGridX; gx <= maxGridX; gx++) {
+      if (maze[gy]?.[gx]) {
+        return false;
+      }
+    }
+  }
+  return true;
+};
+
+// Like canSpriteStand, but also keeps the sprite fully inside the maze bounds.
+export const canSpriteMoveTo = (maze: boolean[][], x: number, y: number) => {
+  return (
+    x >= SPRITE_LEFT_OFFSET &&
+    x <= MAZE_WIDTH - SPRITE_RIGHT_OFFSET &&
+    y >= SPRITE_TOP_OFFSET &&
+    y <= MAZE_HEIGHT - SPRITE_BOTTOM_OFFSET &&
+    canSpriteStand(maze, x, y)
+  );
+};
+
+// BFS over grid cells from the player spawn using the sprite collision box,
+// marking every cell a ~2.5x2.5 sprite can walk to.
+export const computeReachable = (
+  maze: boolean[][],
+  spawn: Position = { x: PLAYER_SPAWN_X, y: PLAYER_SPAWN_Y }
+) => {
+  const reachable: boolean[][] = Array(MAZE_HEIGHT)
+    .fill(0)
+    .map(() => Array(MAZE_WIDTH).fill(false));
+
+  const queue: Position[] = [];
+  if (canSpriteStand(maze, spawn.x, spawn.y)) {
+    reachable[spawn.y][spawn.x] = true;
+    queue.push({ x: spawn.x, y: spawn.y });
+  }
+
+  while (queue.length > 0) {
+    const { x, y } = queue.shift() as Position;
+    const neighbors = [
+      { x: x + 1, y },
+      { x: x - 1, y },
+      { x, y: y + 1 },
+      { x, y: y - 1 },
+    ];
+    for (const n of neighbors) {
+      if (
+        n.x > 0 &&
+        n.x < MAZE_WIDTH - 1 &&
+        n.y > 0 &&
+        n.y < MAZE_HEIGHT - 1 &&
+        !reachable[n.y][n.x] &&
+        canSpriteStand(maze, n.x, n.y)
+      ) {
+        reachable[n.y][n.x] = true;
+        queue.push(n);
+      }
+    }
+  }
+
+  return reachable;
+};
+
+export interface MazeGenerator {
+  id: string;
+  // Shown in the office layout picker on the title screen
+  name: string;
+  // Lay out the walls of a MAZE_WIDTH x MAZE_HEIGHT grid (true = wall).
+  // Generators only need to produce an interesting layout: the spawn plus,
+  // corner pockets and connectivity are enforced afterwards by generateMaze.
+  generate: (random: Random) => boolean[][];
+}
+
+// A MAZE_HEIGHT x MAZE_WIDTH grid filled with `fill`, wrapped in a solid
+// 1-cell-thick outer border.
+export const createBorderedGrid = (fill: boolean): boolean[][] => {
+  const m: boolean[][] = Array(MAZE_HEIGHT)
+    .fill(0)
+    .map(() => Array(MAZE_WIDTH).fill(fill));
+  for (let x = 0; x < MAZE_WIDTH; x++) {
+    m[0][x] = true;
+    m[MAZE_HEIGHT - 1][x] = true;
+  }
+  for (let y = 0; y < MAZE_HEIGHT; y++) {
+    m[y][0] = true;
+    m[y][MAZE_WIDTH - 1] = true;
+  }
+  return m;
+};
+
+// Post-process any generated layout (in place) so every corridor is at least
+// 3 cells wide, the spawn sits on a 3-wide "plus", each corner has an open
+// 3x3 pocket for executives and every open cell is reachable from the spawn.
+export const enforceMazeGuarantees = (m: boolean[][]): boolean[][] => {
+  // Post-process: enforce that any open "corridor" along rows/columns is either
+  // completely blocked or at least 3 cells wide. Any open run of length 1–2
+  // is converted to walls so that sprites (~2.5x2.5 blocks) always have enough space,
+  // while still keeping the maze mostly open.
+
+  // Process rows
+  for (let y = 0; y < MAZE_HEIGHT; y++) {
+    let runStart = -1;
+    for (let x = 0; x <= MAZE_WIDTH; x++) {
+      const isOpen = x < MAZE_WIDTH ? !m[y][x] : false;
+      if (isOpen) {
+        if (runStart === -1) runStart = x;
+      } else if (runStart !== -1) {
+        const runEnd = x - 1;
+        const runLength = runEnd - runStart + 1;
+        if (runLength > 0 && runLength < 3) {
+          for (let rx = runStart; rx <= runEnd; rx++) {
+            // Keep the outer border untouched
+            if (
+              rx === 0 ||
+              rx === MAZE_WIDTH - 1 ||
+              y === 0 ||
+              y === MAZE_HEIGHT - 1
+            )
+              continue;
+            m[y][rx] = true;
+          }
+        }
+        runStart = -1;
+      }
+    }
+  }
+
+  // Process columns
+  for (let x = 0; x < MAZE_WIDTH; x++) {
+    let runStart = -1;
+    for (let y = 0; y <= MAZE_HEIGHT; y++) {
+      const isOpen = y < MAZE_HEIGHT ? !m[y][x] : false;
+      if (isOpen) {
+        if (runStart === -1) runStart = y;
+      } else if (runStart !== -1) {
+        const runEnd = y - 1;
+        const runLength = runEnd - runStart + 1;
+        if (runLength > 0 && runLength < 3) {
+          for (let ry = runStart; ry <= runEnd; ry++) {
+            if (
+              x === 0 ||
+              x === MAZE_WIDTH - 1 ||
+              ry === 0 ||
+              ry === MAZE_HEIGHT - 1
+            )
+              continue;
+            m[ry][x] = true;
+          }
+        }
+        runStart = -1;
+      }
+    }
+  }
+
+  // Ensure 3x3 open pockets in each corner (just inside the outer border)
+  // so executives can spawn there cleanly.
+  const clearCornerPocket = (startX: number, startY: number) => {
+    for (let y = startY; y < startY + 3 && y < MAZE_HEIGHT - 1; y++) {
+      for (let x = startX; x < startX + 3 && x < MAZE_WIDTH - 1; x++) {
+        if (x > 0 && x < MAZE_WIDTH - 1 && y > 0 && y < MAZE_HEIGHT - 1) {
+          m[y][x] = false;
+        }
+      }
+    }
+  };
+
+  // Top-left, top-right, bottom-left, bottom-right internal 3x3 pockets
+  clearCornerPocket(1, 1);
+  clearCornerPocket(MAZE_WIDTH - 4, 1);
+  clearCornerPocket(1, MAZE_HEIGHT - 4);
+  clearCornerPocket(MAZE_WIDTH - 4, MAZE_HEIGHT - 4);
+
+  // Make the spawn corridor a 3-block-wide "plus" centered on the player spawn.
+  // Vertical band: for every row, clear a 3-cell-wide strip around the spawn column,
+  // but don't punch through the outer border walls.
+  for (let y = 1; y < MAZE_HEIGHT - 1; y++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const xx = PLAYER_SPAWN_X + dx;
+      if (xx <= 0 || xx >= MAZE_WIDTH - 1) continue;
+      m[y][xx] = false;
+    }
+  }
+
+  // Horizontal band: for every column, clear a 3-cell-wide strip around the spawn row,
+  // again keeping the outer border intact.
+  for (let x = 1; x < MAZE_WIDTH - 1; x++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const yy = PLAYER_SPAWN_Y + dy;
+      if (yy <= 0 || yy >= MAZE_HEIGHT - 1) continue;
+      m[yy][x] = false;
+    }
+  }
+
+  // Finally, ensure the walkable region is a single connected component:
+  // from the spawn you can reach every other open cell. We do this by:
+  // 1) BFS from the spawn to mark reachable cells.
+  // 2) If we find an open cell that's not reachable, carve a 3-wide L-shaped
+  //    corridor from that cell back to the spawn.
+  const inBounds = (x: number, y: number) =>
+    x > 0 && x < MAZE_WIDTH - 1 && y > 0 && y < MAZE_HEIGHT - 1;
+
+  const floodFillFromSpawn = (visited: boolean[][]) => {
+    for (let y = 0; y < MAZE_HEIGHT; y++) {
+      for (let x = 0; x < MAZE_WIDTH; x++) {
+        visited[y][x] = false;
+      }
+    }
+    const queue: Position[] = [];
+    if (!m[PLAYER_SPAWN_Y][PLAYER_SPAWN_X]) {
+      visited[PLAYER_SPAWN_Y][PLAYER_SPAWN_X] = true;
+      queue.push({ x: PLAYER_SPAWN_X, y: PLAYER_SPAWN_Y });
+    }
+    while (queue.length > 0) {
+      const { x, y } = queue.shift() as Position;
+      const neighbors = [
+        { x: x + 1, y },
+        { x: x - 1, y },
+        { x, y: y + 1 },
+        { x, y: y - 1 },
+      ];
+      for (const n of neighbors) {
+        if (inBounds(n.x, n.y) && !m[n.y][n.x] && !visited[n.y][n.x]) {
+          visited[n.y][n.x] = true;
+          queue.push(n);
+        }
+      }
+    }
+  };
+
+  const visited: boolean[][] = Array(MAZE_HEIGHT)
+    .fill(0)
+    .map(() => Array(MAZE_WIDTH).fill(false));
+
+  floodFillFromSpawn(visited);
+
+  // Look for any open cell not reachable from the spawn. For each disconnected
+  // region we find, carve a single 3-wide L-shaped corridor back to the spawn,
+  // then recompute connectivity. This avoids over-opening the maze.
+  // We only carve for the first cell in each disconnected component.
+  while (true) {
+    let start: Position | null = null;
+    for (let y = 1; y < MAZE_HEIGHT - 1 && !start; y++) {
+      for (let x = 1; x < MAZE_WIDTH - 1; x++) {
+        if (!m[y][x] && !visited[y][x]) {
+          start = { x, y };
+          break;
+        }
+      }
+    }
+
+    if (!start) {
+      break; // All open cells are connected to the spawn
+    }
+
+    // Carve a 3-wide corridor from this cell back to the spawn.
+    let cx = start.x;
+    let cy = start.y;
+
+    // Horizontal leg towards spawn column
+    const stepX = cx < PLAYER_SPAWN_X ? 1 : -1;
+    while (cx !== PLAYER_SPAWN_X) {
+      cx += stepX;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = cy + dy;
+        if (!inBounds(cx, yy)) continue;
+        m[yy][cx] = false;
+      }
+    }
+
+    // Vertical leg towards spawn row
+    const stepY = cy < PLAYER_SPAWN_Y ? 1 : -1;
+    while (cy !== PLAYER_SPAWN_Y) {
+      cy += stepY;
+      for (let dx = -1; dx <= 1; dx++) {
+        const xx = PLAYER_SPAWN_X + dx;
+        if (!inBounds(xx, cy)) continue;
+        m[cy][xx] = false;
+      }
+    }
+
+    // Recompute connectivity after carving this corridor.
+    floodFillFromSpawn(visited);
+  }
+
+  // Additionally, explicitly carve 3-wide L-shaped corridors from each
+  // executive's starting corner area to the spawn, so every executive
+  // has a guaranteed wide path to the centre.
+  const carveCornerToSpawn = (startX: number, startY: number) => {
+    let cx = startX;
+    let cy = startY;
+
+    // Horizontal leg towards spawn column
+    const stepX = cx < PLAYER_SPAWN_X ? 1 : cx > PLAYER_SPAWN_X ? -1 : 0;
+    while (cx !== PLAYER_SPAWN_X) {
+      cx += stepX;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = cy + dy;
+        if (!inBounds(cx, yy)) continue;
+        m[yy][cx] = false;
+      }
+    }
+
+    // Vertical leg towards spawn row
+    const stepY = cy < PLAYER_SPAWN_Y ? 1 : cy > PLAYER_SPAWN_Y ? -1 : 0;
+    while (cy !== PLAYER_SPAWN_Y) {
+      cy += stepY;
+      for (let dx = -1; dx <= 1; dx++) {
+        const xx = PLAYER_SPAWN_X + dx;
+        if (!inBounds(xx, cy)) continue;
+        m[cy][xx] = false;
+      }
+    }
+  };
+
+  carveCornerToSpawn(2, 2);
+  carveCornerToSpawn(MAZE_WIDTH - 3, 2);
+  carveCornerToSpawn(2, MAZE_HEIGHT - 3);
+  carveCornerToSpawn(MAZE_WIDTH - 3, MAZE_HEIGHT - 3);
+
+  // Ensure player spawn position itself is never a wall
+  m[PLAYER_SPAWN_Y][PLAYER_SPAWN_X] = false;
+
+  return m;
+};
+
+// Build an office maze with the given generator and the shared guarantees.
+export const generateMaze = (
+  generator: MazeGenerator,
+  random: Random
+): boolean[][] => enforceMazeGuarantees(generator.generate(random));
@@ -0,0 +1,129 @@
+import { GameEvent, GameState, TickInput, World } from "./types";
+
+// Networked co-op runs through the relay in server/relay.mjs. The host's
+// browser runs the simulation as usual, with each guest's keys standing in
+// for a local player; guests just draw what the host sends them.
+
+// Where the bundled relay listens unless told otherwise
+export const RELAY_PORT = 8787;
+
+// The host's seat. Everyone's seat is also their index in World.players.
+export const HOST_SEAT = 0;
+
+// Seconds between the host's snapshots
+export const SNAPSHOT_INTERVAL = 1 / 30;
+
+// What the host and guests tell each other:
+//   ready     a guest is listening; the host answers with "start" if a run
+//             is already under way
+//   start     the host began a run on this seed; guests clear their HUD
+//   input     a guest's keys, held until the host's next tick
+//   snapshot  the host's authoritative world and GameState, with every event
+//             since the last snapshot so guests hear and see them too. The
+//             maze only travels when it changed (a new run or floor, or a
+//             guest who just joined).
+export type PeerMessage =
+  | { type: "ready" }
+  | { type: "start"; seed: number }
+  | { type: "input"; input: TickInput }
+  | {
+      type: "snapshot";
+      world: Omit<World, "maze" | "events">;
+      maze?: boolean[][];
+      gameState: GameState;
+      events: GameEvent[];
+    };
+
+// What the relay sends (see server/relay.mjs)
+type RelayMessage =
+  | { type: "joined"; room: string; seat: number }
+  | { type: "peerJoined"; seat: number }
+  | { type: "peerLeft"; seat: number }
+  | { type: "relay"; from: number; payload: PeerMessage }
+  | { type: "error"; message: string };
+
+// What a session hears about: messages from the other seats, people coming
+// and going, and the connection dropping
+export type NetEvent =
+  | { type: "message"; from: number; message: PeerMessage }
+  | { type: "peerJoined"; seat: number }
+  | { type: "peerLeft"; seat: number }
+  | { type: "closed" };
+
+export interface NetSession {
+  room: string;
+  seat: number;
+  isHost: boolean;
+  send: (message: PeerMessage) => void;
+  // Returns a function that stops listening
+  subscribe: (listener: (event: NetEvent) => void) => () => void;
+  close: () => void;
+}
+
+// Connect to a relay and either create a room (no code) or join one.
+// Resolves once seated; rejects when the relay can't be reached or turns us
+// away (no such room, room full).
+export const connectToRoom = (url: string, room?: string) =>
+  new Promise<NetSession>((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const listeners = new Set<(event: NetEvent) => void>();
+    const emit = (event: NetEvent) => {
+      for (const listener of listeners) listener(event);
+    };
+    let seated = false;
+
+    socket.onopen = () => {
+      socket.send(
+        JSON.stringify(room ? { type: "join", room } : { type: "create" })
+      );
+    };
+
+    socket.onmessage = (e: MessageEvent<string>) => {
+      const message = JSON.parse(e.data) as RelayMessage;
+      switch (message.type) {
+        case "joined":
+          seated = true;
+          resolve({
+            room: message.room,
+            seat: message.seat,
+            isHost: message.seat === HOST_SEAT,
+            send: (payload) => {
+              if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: "relay", payload }));
+              }
+            },
+            subscribe: (listener) => {
+              listeners.add(listener);
+              return () => {
+                listeners.delete(listener);
+              };
+            },
+            close: () => socket.close(),
+          });
+          break;
+        case "relay":
+          emit({
+            type: "message",
+            from: message.from,
+            message: message.payload,
+          });
+          break;
+        case "error":
+          if (!seated) {
+            reject(new Error(message.message));
+            socket.close();
+          }
+          break;
+        default:
+          emit(message);
+      }
+    };
+
+    socket.onclose = () => {
+      if (seated) {
+        emit({ type: "closed" });
+      } else {
+        reject(new Error(`Couldn't reach the relay at ${url}`));
+      }
+    };
+  });
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { createBorderedGrid } from "./maze";
+import { noiseDistanceAt, noiseDistances } from "./noise";
+
+describe("noiseDistances", () => {
+  it("spreads along open floor one cell per step", () => {
+    const distances = noiseDistances(
+      createBorderedGrid(false),
+      { x: 10, y: 10 },
+      5
+    );
+    expect(distances[10][10]).toBe(0);
+    expect(distances[10][13]).toBe(3);
+    // Walking distance, not straight-line
+    expect(distances[12][12]).toBe(4);
+  });
+
+  it("stops at its loudness", () => {
+    const distances = noiseDistances(
+      createBorderedGrid(false),
+      { x: 10, y: 10 },
+      5
+    );
+    expect(distances[10][15]).toBe(5);
+    expect(distances[10][16]).toBe(Infinity);
+  });
+
+  it("bends round walls instead of going through them", () => {
+    const maze = createBorderedGrid(false);
+    // A wall between x = 11 and the origin, open only at y = 14
+    for (let y = 1; y < 14; y++) maze[y][11] = true;
+    for (let y = 15; y < maze.length - 1; y++) maze[y][11] = true;
+    const distances = noiseDistances(maze, { x: 10, y: 10 }, 20);
+    expect(distances[10][11]).toBe(Infinity);
+    // Down to the gap, through it, and back up
+    expect(distances[10][12]).toBe(4 + 2 + 4);
+  });
+
+  it("never leaks into sealed rooms", () => {
+    const maze = createBorderedGrid(false);
+    for (let y = 1; y < maze.length - 1; y++) maze[y][20] = true;
+    const distances = noiseDistances(maze, { x: 10, y: 10 }, 100);
+    expect(distances[10][21]).toBe(Infinity);
+  });
+
+  it("goes nowhere from inside a wall", () => {
+    const distances = noiseDistances(
+      createBorderedGrid(false),
+      { x: 0, y: 5 },
+      10
+    );
+    expect(distances.flat().every((d) => d === Infinity)).toBe(true);
+  });
+});
+
+describe("noiseDistanceAt", () => {
+  it("uses the nearest cell a sprite straddles", () => {
+    const distances = noiseDistances(
+      createBorderedGrid(false),
+      { x: 10, y: 10 },
+      10
+    );
+    expect(noiseDistanceAt(distances, { x: 13.5, y: 10 })).toBe(3);
+    expect(noiseDistanceAt(distances, { x: 12.5, y: 11.5 })).toBe(3);
+  });
+});
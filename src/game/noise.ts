@@ -0,0 +1,49 @@
+import { MAZE_HEIGHT, MAZE_WIDTH } from "./constants";
+import { Position } from "./types";
+
+// How far sound travels from `origin`: the walking distance, in cells, to
+// every open cell within `maxDistance`, found by BFS so it bends round
+// corners and walls muffle it. Cells it doesn't reach are Infinity.
+export const noiseDistances = (
+  maze: boolean[][],
+  origin: Position,
+  maxDistance: number
+): number[][] => {
+  const distances: number[][] = Array.from({ length: MAZE_HEIGHT }, () =>
+    Array(MAZE_WIDTH).fill(Infinity)
+  );
+  const start = { x: Math.floor(origin.x), y: Math.floor(origin.y) };
+  if (maze[start.y]?.[start.x] !== false) return distances;
+
+  distances[start.y][start.x] = 0;
+  const queue: Position[] = [start];
+  for (let head = 0; head < queue.length; head++) {
+    const { x, y } = queue[head];
+    const next = distances[y][x] + 1;
+    if (next > maxDistance) continue;
+    for (const n of [
+      { x: x + 1, y },
+      { x: x - 1, y },
+      { x, y: y + 1 },
+      { x, y: y - 1 },
+    ]) {
+      if (maze[n.y]?.[n.x] === false && distances[n.y][n.x] === Infinity) {
+        distances[n.y][n.x] = next;
+        queue.push(n);
+      }
+    }
+  }
+  return distances;
+};
+
+// Distance a noise has to travel to reach a sprite anchored at `position`:
+// the nearest of the cells it straddles.
+export const noiseDistanceAt = (distances: number[][], position: Position) =>
+  Math.min(
+    ...[Math.floor, Math.ceil].flatMap((roundX) =>
+      [Math.floor, Math.ceil].map(
+        (roundY) =>
+          distances[roundY(position.y)]?.[roundX(position.x)] ?? Infinity
+      )
+    )
+  );
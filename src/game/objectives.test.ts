@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { FIXED_TIMESTEP } from "./constants";
+import {
+  describeObjective,
+  generateObjectives,
+  Objective,
+  startObjectives,
+  trackObjective,
+} from "./objectives";
+import { IDLE_INPUT, step } from "./simulation";
+import { Collectible, Executive, GameEvent } from "./types";
+import { createWorld } from "./world";
+
+const executives = createWorld(1).executives;
+
+const progressFor = (objective: Objective, execs: Executive[] = executives) =>
+  startObjectives([objective], execs)[0];
+
+const track = (objective: Objective, events: GameEvent[], dt = 0) =>
+  trackObjective(progressFor(objective), events, dt);
+
+describe("generateObjectives", () => {
+  // Plenty of every vandalism target, intact
+  const floor: Collectible[] = (["computer", "wall", "coworker"] as const)
+    .flatMap((type) => Array.from({ length: 10 }, () => type))
+    .map((type, i) => ({
+      position: { x: i % 30, y: 1 + Math.floor(i / 30) },
+      type,
+      collected: false,
+    }));
+
+  it("rotates the vandalism target and grows it with the level", () => {
+    const targets = [1, 2, 3, 4].map(
+      (level) => generateObjectives(level, floor)[0]
+    );
+    expect(targets).toEqual([
+      { kind: "vandalize", item: "computer", count: 3 },
+      { kind: "vandalize", item: "wall", count: 4 },
+      { kind: "vandalize", item: "coworker", count: 5 },
+      { kind: "vandalize", item: "computer", count: 6 },
+    ]);
+  });
+
+  it("never asks for more than the floor has left intact", () => {
+    const wrecked = floor.map((c, i) =>
+      c.type === "computer" && i > 1 ? { ...c, damaged: true } : c
+    );
+    expect(generateObjectives(4, wrecked)[0]).toMatchObject({ count: 2 });
+    const bare = floor.filter((c) => c.type !== "computer");
+    expect(generateObjectives(1, bare)).toEqual([
+      { kind: "coins", count: 15, timeLimit: undefined },
+    ]);
+  });
+
+  it("alternates coin hauls, timed from level 3, with scaring everyone", () => {
+    expect(generateObjectives(1, floor)[1]).toEqual({
+      kind: "coins",
+      count: 15,
+      timeLimit: undefined,
+    });
+    expect(generateObjectives(2, floor)[1]).toEqual({ kind: "scare" });
+    expect(generateObjectives(3, floor)[1]).toMatchObject({ timeLimit: 60 });
+  });
+});
+
+describe("startObjectives", () => {
+  it("sets a scare target of every executive on the floor", () => {
+    expect(progressFor({ kind: "scare" }).target).toBe(executives.length);
+    expect(progressFor({ kind: "scare", count: 2 }).target).toBe(2);
+  });
+
+  it("never asks to scare more executives than the floor has", () => {
+    const [boss] = executives;
+    expect(progressFor({ kind: "scare", count: 5 }, [boss]).target).toBe(1);
+    // Two spawns sharing a name are the same executive
+    expect(progressFor({ kind: "scare" }, [boss, boss]).target).toBe(1);
+  });
+
+  it("drops the scare objective on a floor without executives", () => {
+    const coins: Objective = { kind: "coins", count: 5 };
+    expect(
+      startObjectives([{ kind: "scare" }, coins], []).map((p) => p.objective)
+    ).toEqual([coins]);
+  });
+
+  it("starts the clock on timed objectives", () => {
+    const progress = progressFor({ kind: "coins", count: 5, timeLimit: 30 });
+    expect(progress).toMatchObject({ count: 0, target: 5, timeLeft: 30 });
+  });
+});
+
+describe("trackObjective", () => {
+  it("counts vandalism of the right item only", () => {
+    const progress = track({ kind: "vandalize", item: "wall", count: 3 }, [
+      { type: "vandalized", item: "wall" },
+      { type: "vandalized", item: "computer" },
+      { type: "vandalized", item: "wall" },
+    ]);
+    expect(progress).toMatchObject({ count: 2, complete: false });
+  });
+
+  it("counts each executive scared once", () => {
+    const progress = track({ kind: "scare", count: 2 }, [
+      { type: "scared", executive: "A" },
+      { type: "scared", executive: "A" },
+      { type: "scared", executive: "B" },
+    ]);
+    expect(progress).toMatchObject({
+      count: 2,
+      scared: ["A", "B"],
+      complete: true,
+    });
+  });
+
+  it("stays done and never counts past the target", () => {
+    const objective: Objective = { kind: "coins", count: 2 };
+    const score: GameEvent = { type: "score", player: 0, points: 1 };
+    const done = track(objective, [score, score, score]);
+    expect(done).toMatchObject({ count: 2, complete: true });
+    expect(trackObjective(done, [score], FIXED_TIMESTEP)).toBe(done);
+  });
+
+  it("starts a timed haul over when the clock runs out", () => {
+    const objective: Objective = { kind: "coins", count: 5, timeLimit: 1 };
+    let progress = trackObjective(
+      progressFor(objective),
+      [{ type: "score", player: 0, points: 1 }],
+      0.5
+    );
+    expect(progress).toMatchObject({ count: 1, timeLeft: 0.5 });
+    progress = trackObjective(progress, [], 0.5);
+    expect(progress).toMatchObject({ count: 0, timeLeft: 1 });
+  });
+});
+
+describe("describeObjective", () => {
+  it("words the checklist", () => {
+    expect(describeObjective({ kind: "scare" })).toBe("Scare every executive");
+    expect(describeObjective({ kind: "coins", count: 25, timeLimit: 60 })).toBe(
+      "Collect 25 coins in 60s"
+    );
+  });
+});
+
+describe("completing a floor", () => {
+  it("reports the level complete the tick the last objective is met", () => {
+    const world = createWorld(1);
+    const { position } = world.players[0];
+    const floor = {
+      ...world,
+      collectibles: [
+        {
+          position: { x: position.x + 1, y: position.y },
+          type: "wall" as const,
+          collected: false,
+        },
+      ],
+      objectives: startObjectives(
+        [{ kind: "vandalize", item: "wall", count: 1 }],
+        world.executives
+      ),
+    };
+    const next = step(floor, [{ ...IDLE_INPUT, action: true }]);
+    expect(next.events).toContainEqual(
+      expect.objectContaining({ type: "levelComplete" })
+    );
+    expect(next.objectives[0].complete).toBe(true);
+  });
+});
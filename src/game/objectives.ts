@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { COLLECTIBLE_TYPES, ITEM_TYPES, ItemType } from "./collectibles";
+import { Collectible, Executive, GameEvent, ObjectiveProgress } from "./types";
+
+// Items whose vandalism an objective can ask for
+const VANDAL_TYPES = ITEM_TYPES.filter(
+  (type) => COLLECTIBLE_TYPES[type].effect === "vandalize"
+);
+
+// What a floor asks of the player before they move up:
+//   vandalize  damage `count` items of one type
+//   scare      stick a kick-me sign on `count` different executives (every
+//              executive on the floor when omitted)
+//   coins      collect `count` coins, within `timeLimit` seconds if set; the
+//              count starts over whenever the clock runs out
+export const objectiveSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("vandalize"),
+    item: z.enum(VANDAL_TYPES as [ItemType, ...ItemType[]]),
+    count: z.number().int().positive(),
+  }),
+  z.object({
+    kind: z.literal("scare"),
+    count: z.number().int().positive().optional(),
+  }),
+  z.object({
+    kind: z.literal("coins"),
+    count: z.number().int().positive(),
+    timeLimit: z.number().positive().optional(),
+  }),
+]);
+
+export type Objective = z.infer<typeof objectiveSchema>;
+
+// Vandalism targets take turns from floor to floor
+const ROTATION: ItemType[] = ["computer", "wall", "coworker"];
+
+// Objectives for a floor without hand-authored ones: a vandalism target that
+// rotates and grows with the level, plus either a scare-everyone round (even
+// levels) or a coin haul that gets timed from level 3 up. The target never
+// asks for more than the floor's `collectibles` have left intact, and is
+// skipped on floors with none of the item.
+export const generateObjectives = (
+  level: number,
+  collectibles: Collectible[]
+): Objective[] => {
+  const item = ROTATION[(level - 1) % ROTATION.length];
+  const intact = collectibles.filter(
+    (c) => c.type === item && !c.collected && !c.damaged
+  ).length;
+  const count = Math.min(intact, 2 + level);
+  const objectives: Objective[] =
+    count > 0 ? [{ kind: "vandalize", item, count }] : [];
+  if (level % 2 === 0) {
+    objectives.push({ kind: "scare" });
+  } else {
+    objectives.push({
+      kind: "coins",
+      count: 10 + 5 * level,
+      timeLimit: level >= 3 ? 60 : undefined,
+    });
+  }
+  return objectives;
+};
+
+// Fresh progress for a floor's objectives. A scare target never asks for
+// more executives than the floor has, and is dropped on a floor without any.
+export const startObjectives = (
+  objectives: Objective[],
+  executives: Executive[]
+): ObjectiveProgress[] => {
+  const scareable = new Set(executives.map((e) => e.name)).size;
+  return objectives
+    .filter((objective) => objective.kind !== "scare" || scareable > 0)
+    .map((objective) => ({
+      objective,
+      count: 0,
+      target:
+        objective.kind === "scare"
+          ? Math.min(objective.count ?? scareable, scareable)
+          : objective.count,
+      scared: [],
+      timeLeft: objective.kind === "coins" ? objective.timeLimit : undefined,
+      complete: false,
+    }));
+};
+
+// Advance one objective by a tick's events. Completed objectives stay done.
+export const trackObjective = (
+  progress: ObjectiveProgress,
+  events: GameEvent[],
+  dt: number
+): ObjectiveProgress => {
+  if (progress.complete) return progress;
+  const { objective } = progress;
+  let { count, scared, timeLeft } = progress;
+
+  for (const event of events) {
+    if (
+      objective.kind === "vandalize" &&
+      event.type === "vandalized" &&
+      event.item === objective.item
+    ) {
+      count += 1;
+    } else if (
+      objective.kind === "scare" &&
+      event.type === "scared" &&
+      !scared.includes(event.executive)
+    ) {
+      scared = [...scared, event.executive];
+      count = scared.length;
+    } else if (objective.kind === "coins" && event.type === "score") {
+      count += 1;
+    }
+  }
+
+  const complete = count >= progress.target;
+  if (timeLeft !== undefined && !complete) {
+    timeLeft -= dt;
+    if (timeLeft <= 0) {
+      // Out of time: the haul starts over
+      count = 0;
+      timeLeft = objective.kind === "coins" ? objective.timeLimit : undefined;
+    }
+  }
+
+  return {
+    ...progress,
+    count: Math.min(count, progress.target),
+    scared,
+    timeLeft,
+    complete,
+  };
+};
+
+// Checklist wording, e.g. "Smash 4 computers" or "Collect 25 coins in 60s"
+export const describeObjective = (objective: Objective) => {
+  switch (objective.kind) {
+    case "vandalize": {
+      const { verb, label } = COLLECTIBLE_TYPES[objective.item];
+      const noun = label.toLowerCase();
+      return `${verb} ${objective.count} ${objective.count === 1 ? noun : `${noun}s`}`;
+    }
+    case "scare":
+      return objective.count
+        ? `Scare ${objective.count} executives`
+        : "Scare every executive";
+    case "coins":
+      return objective.timeLimit
+        ? `Collect ${objective.count} coins in ${objective.timeLimit}s`
+        : `Collect ${objective.count} coins`;
+  }
+};
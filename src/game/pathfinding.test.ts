@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { MAZE_HEIGHT, MAZE_WIDTH } from "./constants";
+import { createBorderedGrid } from "./maze";
+import { findPath, nearestWalkableCell } from "./pathfinding";
+import { Position } from "./types";
+
+// Each step of a path moves at most one cell
+const expectConnected = (from: Position, path: Position[]) => {
+  path.forEach((cell, i) => {
+    const previous = i === 0 ? from : path[i - 1];
+    expect(
+      Math.abs(cell.x - previous.x) + Math.abs(cell.y - previous.y)
+    ).toBeLessThanOrEqual(1);
+  });
+};
+
+describe("findPath", () => {
+  it("walks straight across an open office", () => {
+    const maze = createBorderedGrid(false);
+    const path = findPath(maze, { x: 3, y: 5 }, { x: 10, y: 5 });
+    expect(path).toHaveLength(7);
+    expect(path.at(-1)).toEqual({ x: 10, y: 5 });
+    expectConnected({ x: 3, y: 5 }, path);
+  });
+
+  it("goes around walls", () => {
+    const maze = createBorderedGrid(false);
+    // A wall down the middle with a gap at the bottom
+    for (let y = 1; y < MAZE_HEIGHT - 6; y++) maze[y][20] = true;
+    const path = findPath(maze, { x: 10, y: 3 }, { x: 30, y: 3 });
+    expect(path.at(-1)).toEqual({ x: 30, y: 3 });
+    expect(path.some((cell) => cell.y >= MAZE_HEIGHT - 6)).toBe(true);
+    expect(path.length).toBeGreaterThan(20);
+    expectConnected({ x: 10, y: 3 }, path);
+  });
+
+  it("returns null when the goal is sealed off", () => {
+    const maze = createBorderedGrid(false);
+    for (let y = 1; y < MAZE_HEIGHT - 1; y++) maze[y][20] = true;
+    expect(findPath(maze, { x: 10, y: 3 }, { x: 30, y: 3 })).toBeNull();
+  });
+
+  it("starts from the cell under a sprite that's between cells", () => {
+    const maze = createBorderedGrid(false);
+    const path = findPath(maze, { x: 3.4, y: 5 }, { x: 5, y: 5 });
+    expect(path[0]).toEqual({ x: 3, y: 5 });
+    expect(path.at(-1)).toEqual({ x: 5, y: 5 });
+  });
+
+  it("always picks the same route through the same maze", () => {
+    const maze = createBorderedGrid(false);
+    expect(findPath(maze, { x: 2, y: 2 }, { x: 30, y: 18 })).toEqual(
+      findPath(maze, { x: 2, y: 2 }, { x: 30, y: 18 })
+    );
+  });
+});
+
+describe("nearestWalkableCell", () => {
+  it("finds a cell a sprite fits in, or none", () => {
+    const maze = createBorderedGrid(false);
+    expect(nearestWalkableCell(maze, { x: 5.2, y: 6.7 })).toEqual({
+      x: 5,
+      y: 7,
+    });
+    expect(
+      nearestWalkableCell(createBorderedGrid(true), { x: 5, y: 5 })
+    ).toBeNull();
+    expect(nearestWalkableCell(maze, { x: MAZE_WIDTH - 1, y: 5 })).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { MAZE_HEIGHT, MAZE_WIDTH } from "./constants";
+import { canSpriteMoveTo } from "./maze";
+import { Position } from "./types";
+
+const NEIGHBORS = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+type HeapEntry = [priority: number, order: number, cell: Position];
+
+const isBefore = (a: HeapEntry, b: HeapEntry) =>
+  a[0] < b[0] || (a[0] === b[0] && a[1] < b[1]);
+
+// Grid cell a sprite at a (possibly fractional) position can path from: the
+// nearest of the surrounding cells it could stand on.
+export const nearestWalkableCell = (
+  maze: boolean[][],
+  position: Position
+): Position | null => {
+  const candidates = [
+    { x: Math.round(position.x), y: Math.round(position.y) },
+    { x: Math.floor(position.x), y: Math.floor(position.y) },
+    { x: Math.ceil(position.x), y: Math.floor(position.y) },
+    { x: Math.floor(position.x), y: Math.ceil(position.y) },
+    { x: Math.ceil(position.x), y: Math.ceil(position.y) },
+  ];
+  return candidates.find((c) => canSpriteMoveTo(maze, c.x, c.y)) ?? null;
+};
+
+// A* over grid cells with 4-way moves, where a cell is walkable when a whole
+// ~2.5x2.5 sprite fits there. Returns the cells to walk through from `from`
+// (starting with its own cell when it's between cells), ending at the cell
+// nearest `to`, or null when there's no route. Ties are broken by insertion
+// order so the same maze always yields the same path.
+export const findPath = (
+  maze: boolean[][],
+  from: Position,
+  to: Position
+): Position[] | null => {
+  const start = nearestWalkableCell(maze, from);
+  const goal = nearestWalkableCell(maze, to);
+  if (!start || !goal) return null;
+
+  const index = (p: Position) => p.y * MAZE_WIDTH + p.x;
+  const heuristic = (p: Position) =>
+    Math.abs(p.x - goal.x) + Math.abs(p.y - goal.y);
+
+  const cost = new Map<number, number>([[index(start), 0]]);
+  const cameFrom = new Map<number, Position>();
+  // Binary min-heap ordered by priority, then insertion order
+  const open: HeapEntry[] = [];
+  let order = 0;
+
+  const push = (priority: number, cell: Position) => {
+    open.push([priority, order++, cell]);
+    let i = open.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!isBefore(open[i], open[parent])) break;
+      [open[i], open[parent]] = [open[parent], open[i]];
+      i = parent;
+    }
+  };
+
+  const pop = () => {
+    const top = open[0];
+    const last = open.pop() as HeapEntry;
+    if (open.length > 0) {
+      open[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < open.length && isBefore(open[left], open[smallest])) {
+          smallest = left;
+        }
+        if (right < open.length && isBefore(open[right], open[smallest])) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [open[i], open[smallest]] = [open[smallest], open[i]];
+        i = smallest;
+      }
+    }
+    return top[2];
+  };
+
+  push(heuristic(start), start);
+  while (open.length > 0) {
+    const current = pop();
+    if (current.x === goal.x && current.y === goal.y) {
+      const path: Position[] = [];
+      let cell: Position | undefined = current;
+      while (cell) {
+        path.unshift(cell);
+        cell = cameFrom.get(index(cell));
+      }
+      // Already standing on the start cell
+      if (start.x === from.x && start.y === from.y) path.shift();
+      return path;
+    }
+
+    const currentCost = cost.get(index(current)) as number;
+    for (const dir of NEIGHBORS) {
+      const next = { x: current.x + dir.x, y: current.y + dir.y };
+      if (
+        next.x < 0 ||
+        next.x >= MAZE_WIDTH ||
+        next.y < 0 ||
+        next.y >= MAZE_HEIGHT ||
+        !canSpriteMoveTo(maze, next.x, next.y)
+      ) {
+        continue;
+      }
+      const nextCost = currentCost + 1;
+      const known = cost.get(index(next));
+      if (known !== undefined && known <= nextCost) continue;
+      cost.set(index(next), nextCost);
+      cameFrom.set(index(next), current);
+      push(nextCost + heuristic(next), next);
+    }
+  }
+  return null;
+};
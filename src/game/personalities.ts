@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { ExecutiveProfile, PatrolStyle } from "./types";
+
+// Shape of an executive profile in level files
+export const executiveProfileSchema = z.object({
+  patrol: z.enum(["wander", "wallFollower", "camper", "sweeper", "ambusher"]),
+  visionDistance: z.number().positive().max(20),
+  visionAngle: z.number().positive().max(90),
+  patrolSpeed: z.number().positive().max(5),
+  chaseSpeed: z.number().positive().max(3),
+  patrolSpeedup: z.number().nonnegative().max(1),
+  chaseSpeedup: z.number().nonnegative().max(1),
+  noiseReaction: z.enum(["ignore", "glance", "investigate"]),
+  hearing: z.number().nonnegative().max(5),
+});
+
+// The original executive: wanders, sees 6 cells in a 30° each-way cone
+export const DEFAULT_EXECUTIVE_PROFILE: ExecutiveProfile = {
+  patrol: "wander",
+  visionDistance: 6,
+  visionAngle: 30,
+  patrolSpeed: 1,
+  chaseSpeed: 1,
+  patrolSpeedup: 0.3,
+  chaseSpeedup: 0.1,
+  noiseReaction: "investigate",
+  hearing: 1,
+};
+
+// One ready-made personality per patrol style, offered by the level editor
+export const EXECUTIVE_PERSONALITIES: Record<
+  PatrolStyle,
+  { label: string; profile: ExecutiveProfile }
+> = {
+  wander: { label: "Wanderer", profile: DEFAULT_EXECUTIVE_PROFILE },
+  // Does the rounds by the book, one hand on the wall, and never lets a
+  // noise go unchecked
+  wallFollower: {
+    label: "Wall follower",
+    profile: {
+      ...DEFAULT_EXECUTIVE_PROFILE,
+      patrol: "wallFollower",
+      hearing: 1.25,
+    },
+  },
+  // Settles in somewhere with a long, narrow stare into the distance; slow
+  // to get going and lost in the good old days, so noise goes unnoticed
+  camper: {
+    label: "Room camper",
+    profile: {
+      ...DEFAULT_EXECUTIVE_PROFILE,
+      patrol: "camper",
+      visionDistance: 9,
+      visionAngle: 18,
+      patrolSpeed: 0.8,
+      chaseSpeed: 0.8,
+      patrolSpeedup: 0.2,
+      noiseReaction: "ignore",
+    },
+  },
+  // Marches corridors end to end, taking in a wide but short view, and
+  // glances over at noises without breaking stride
+  sweeper: {
+    label: "Corridor sweeper",
+    profile: {
+      ...DEFAULT_EXECUTIVE_PROFILE,
+      patrol: "sweeper",
+      visionDistance: 5,
+      visionAngle: 45,
+      patrolSpeed: 1.4,
+      noiseReaction: "glance",
+    },
+  },
+  // Cuts the player off, hears everything, and picks up speed fastest
+  ambusher: {
+    label: "Ambusher",
+    profile: {
+      ...DEFAULT_EXECUTIVE_PROFILE,
+      patrol: "ambusher",
+      visionAngle: 24,
+      patrolSpeed: 0.7,
+      chaseSpeed: 1.15,
+      chaseSpeedup: 0.15,
+      hearing: 1.6,
+    },
+  },
+};
+
+// The stock executives, one per corner on random layouts. Hand-authored
+// levels fall back to these for unnamed spawns.
+export const EXECUTIVE_ROSTER = [
+  {
+    name: "Boomer Bob",
+    color: "#FF1493",
+    profile: EXECUTIVE_PERSONALITIES.wallFollower.profile,
+  },
+  {
+    name: "Nostalgic Ned",
+    color: "#FFD700",
+    profile: EXECUTIVE_PERSONALITIES.camper.profile,
+  },
+  {
+    name: "Traditional Tom",
+    color: "#00FF00",
+    profile: EXECUTIVE_PERSONALITIES.sweeper.profile,
+  },
+  {
+    name: "Grumpy Greg",
+    color: "#00FFFF",
+    profile: EXECUTIVE_PERSONALITIES.ambusher.profile,
+  },
+];
+
+// A level file's (possibly partial) profile, filled in from the personality
+// of its patrol style
+export const resolveExecutiveProfile = (
+  profile: Partial<ExecutiveProfile> = {}
+): ExecutiveProfile => ({
+  ...EXECUTIVE_PERSONALITIES[profile.patrol ?? "wander"].profile,
+  ...profile,
+});
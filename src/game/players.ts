@@ -0,0 +1,53 @@
+// Keys are KeyboardEvent.key values, lowercased
+export interface PlayerControls {
+  up: string;
+  down: string;
+  left: string;
+  right: string;
+  action: string;
+  // Throws from hotbar slots 1, 2, 3...
+  hotbar: string[];
+}
+
+export interface PlayerLook {
+  // Tags the player in the HUD and over their sprite in co-op
+  label: string;
+  // HUD colour
+  color: string;
+  // Canvas filter that tints the shared player sprite
+  tint: string;
+  controls: PlayerControls;
+}
+
+// Everyone who can play at one keyboard, in World.players order. Player one
+// keeps the solo controls; player two sits on the arrow keys.
+export const PLAYER_LOOKS: PlayerLook[] = [
+  {
+    label: "P1",
+    color: "#FF69B4",
+    tint: "none",
+    controls: {
+      up: "w",
+      down: "s",
+      left: "a",
+      right: "d",
+      action: "p",
+      hotbar: ["1", "2", "3"],
+    },
+  },
+  {
+    label: "P2",
+    color: "#00FFFF",
+    tint: "hue-rotate(160deg) saturate(1.4)",
+    controls: {
+      up: "arrowup",
+      down: "arrowdown",
+      left: "arrowleft",
+      right: "arrowright",
+      action: "enter",
+      hotbar: [",", ".", "/"],
+    },
+  },
+];
+
+export const MAX_PLAYERS = PLAYER_LOOKS.length;
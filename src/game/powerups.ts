@@ -0,0 +1,103 @@
+import {
+  ALL_HANDS_DURATION,
+  INVISIBILITY_DURATION,
+  MAGNET_DURATION,
+  SPEED_BOOST_DURATION,
+} from "./constants";
+import { GameEvent, PlayerState } from "./types";
+
+export interface PowerUpDefinition {
+  // Shown in the HUD while the effect lasts
+  label: string;
+  // Seconds the effect lasts; instant power-ups (0) are over on pickup and
+  // left to the driver, which hears about them through a "powerUp" event
+  duration: number;
+  // Player glow and HUD colour while the effect lasts
+  color: string;
+}
+
+// Everything a power-up pick-up can do. The simulation checks for active
+// effects with hasEffect; the renderer and HUD use the label and colour.
+const definitions = {
+  // Coffee: double speed
+  speedBoost: {
+    label: "COFFEE RUSH",
+    duration: SPEED_BOOST_DURATION,
+    color: "#FFD700",
+  },
+  // Hiding behind an expense report: executives can't see the player
+  invisibility: {
+    label: "EXPENSE REPORT",
+    duration: INVISIBILITY_DURATION,
+    color: "#B0E0FF",
+  },
+  // Nearby coins fly to the player
+  magnet: {
+    label: "COIN MAGNET",
+    duration: MAGNET_DURATION,
+    color: "#FF4500",
+  },
+  // Every executive is stuck in an all-hands meeting and stands still
+  freeze: {
+    label: "ALL-HANDS MEETING",
+    duration: ALL_HANDS_DURATION,
+    color: "#00FFFF",
+  },
+  // One HR violation forgiven
+  extraLife: {
+    label: "HR PARDON",
+    duration: 0,
+    color: "#FF69B4",
+  },
+} satisfies Record<string, PowerUpDefinition>;
+
+export type PowerUpType = keyof typeof definitions;
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = definitions;
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+// Seconds left on one of the player's effects (0 when inactive)
+export const effectTime = (player: PlayerState, type: PowerUpType) =>
+  player.effects[type] ?? 0;
+
+export const hasEffect = (player: PlayerState, type: PowerUpType) =>
+  effectTime(player, type) > 0;
+
+// Picking up a power-up starts (or restarts) its effect. `index` is the
+// player's place in world.players, for the events.
+export const applyPowerUp = (
+  player: PlayerState,
+  index: number,
+  type: PowerUpType
+): { player: PlayerState; events: GameEvent[] } => {
+  const { duration } = POWER_UPS[type];
+  const events: GameEvent[] = [
+    { type: "powerUp", player: index, powerUp: type, duration },
+  ];
+  if (duration === 0) return { player, events };
+  return {
+    player: { ...player, effects: { ...player.effects, [type]: duration } },
+    events,
+  };
+};
+
+// Run the player's effects down, dropping the ones that run out
+export const tickEffects = (
+  player: PlayerState,
+  index: number,
+  dt: number
+): { player: PlayerState; events: GameEvent[] } => {
+  const effects: PlayerState["effects"] = {};
+  const events: GameEvent[] = [];
+  for (const type of POWER_UP_TYPES) {
+    const time = effectTime(player, type);
+    if (time <= 0) continue;
+    if (time - dt > 0) {
+      effects[type] = time - dt;
+    } else {
+      events.push({ type: "effectExpired", player: index, powerUp: type });
+    }
+  }
+  return { player: { ...player, effects }, events };
+};
@@ -0,0 +1,55 @@
+// A function returning a float in [0, 1), like Math.random.
+export type Random = () => number;
+
+export interface Rng {
+  next: Random;
+  // Current internal state; pass it back to createRng to resume the sequence
+  state: () => number;
+}
+
+// Mulberry32: a tiny 32-bit PRNG. Not cryptographic, but fast and well
+// distributed enough for maze layouts and executive AI, and its whole state
+// is a single integer so it can live inside the (serialisable) world.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => state,
+  };
+};
+
+// The one place allowed to use Math.random: picking a seed for a new session.
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Turn whatever the player typed into a seed. Plain numbers are used as-is
+// so seeds shown in the HUD round-trip; anything else is hashed (FNV-1a).
+export const parseSeed = (text: string): number => {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Fisher-Yates shuffle into a new array.
+export const shuffle = <T>(items: T[], random: Random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = shuffled[i];
+    shuffled[i] = shuffled[j];
+    shuffled[j] = tmp;
+  }
+  return shuffled;
+};
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  createReplayPlayer,
+  createReplayRecorder,
+  decodeInput,
+  encodeInput,
+  parseReplay,
+  replayTickCount,
+  ReplaySetup,
+} from "./replay";
+import { IDLE_INPUT, step } from "./simulation";
+import { TickInput } from "./types";
+import { createWorld } from "./world";
+
+const setup = (seed: number, players = 1): ReplaySetup => ({
+  seed,
+  level: 1,
+  layout: "classic",
+  freshFloors: false,
+  players,
+  sharedLives: true,
+});
+
+const inputAt = (tick: number): TickInput => ({
+  ...IDLE_INPUT,
+  right: tick % 90 < 45,
+  down: tick % 120 >= 60,
+  action: tick % 25 === 0,
+  throwSlot: tick % 40 === 0 ? 1 + ((tick / 40) % 3) : 0,
+});
+
+// Player two wanders the other way
+const secondInputAt = (tick: number): TickInput => ({
+  ...IDLE_INPUT,
+  left: tick % 70 < 35,
+  up: tick % 100 >= 50,
+  action: tick % 30 === 0,
+});
+
+describe("input masks", () => {
+  it("decodes every mask back to the input it came from", () => {
+    for (let mask = 0; mask < 128; mask++) {
+      expect(encodeInput(decodeInput(mask))).toBe(mask);
+    }
+  });
+
+  it("keeps each key on its own bit", () => {
+    const keys = ["up", "down", "left", "right", "action"] as const;
+    const masks = keys.map((key) =>
+      encodeInput({ ...IDLE_INPUT, [key]: true })
+    );
+    expect(new Set(masks).size).toBe(keys.length);
+    expect(encodeInput(IDLE_INPUT)).toBe(0);
+  });
+
+  it("keeps the thrown hotbar slot clear of the keys", () => {
+    for (let throwSlot = 0; throwSlot <= 3; throwSlot++) {
+      const input = { ...IDLE_INPUT, left: true, action: true, throwSlot };
+      expect(decodeInput(encodeInput(input))).toEqual(input);
+    }
+    expect(encodeInput({ ...IDLE_INPUT, throwSlot: 1 })).toBe(32);
+  });
+});
+
+describe("recording and playback", () => {
+  it("run-length encodes held keys", () => {
+    const recorder = createReplayRecorder(setup(1));
+    for (let i = 0; i < 10; i++) recorder.record([IDLE_INPUT], 1);
+    recorder.record([{ ...IDLE_INPUT, up: true }], 1);
+    expect(recorder.replay().inputs).toEqual([
+      [0, 10],
+      [encodeInput({ ...IDLE_INPUT, up: true }), 1],
+    ]);
+  });
+
+  it("plays back every tick's input and level in order", () => {
+    const recorder = createReplayRecorder(setup(5));
+    for (let i = 0; i < 300; i++)
+      recorder.record([inputAt(i)], i < 200 ? 1 : 2);
+    const replay = parseReplay(JSON.stringify(recorder.replay()));
+    expect(replayTickCount(replay)).toBe(300);
+    expect(replay.levels).toEqual([[200, 2]]);
+
+    const player = createReplayPlayer(replay);
+    for (let i = 0; i < 300; i++) {
+      expect(player.next()).toEqual({
+        inputs: [inputAt(i)],
+        level: i < 200 ? 1 : 2,
+      });
+    }
+    expect(player.next()).toBeNull();
+  });
+
+  it("reproduces the recorded run", () => {
+    const recorder = createReplayRecorder(setup(11));
+    let live = createWorld(11);
+    for (let i = 0; i < 600; i++) {
+      recorder.record([inputAt(i)], live.level);
+      live = step(live, [inputAt(i)]);
+    }
+
+    const player = createReplayPlayer(recorder.replay());
+    let replayed = createWorld(11);
+    for (let frame = player.next(); frame; frame = player.next()) {
+      replayed = step(replayed, frame.inputs);
+    }
+    expect(replayed).toEqual(live);
+  });
+
+  it("keeps both co-op players' inputs apart", () => {
+    const recorder = createReplayRecorder(setup(13, 2));
+    let live = createWorld(13, 1, "classic", undefined, 2);
+    for (let i = 0; i < 600; i++) {
+      const inputs = [inputAt(i), secondInputAt(i)];
+      recorder.record(inputs, live.level);
+      live = step(live, inputs);
+    }
+
+    const replay = parseReplay(JSON.stringify(recorder.replay()));
+    const player = createReplayPlayer(replay);
+    let replayed = createWorld(13, 1, "classic", undefined, 2);
+    for (let i = 0, frame = player.next(); frame; i++, frame = player.next()) {
+      expect(frame.inputs).toEqual([inputAt(i), secondInputAt(i)]);
+      replayed = step(replayed, frame.inputs);
+    }
+    expect(replayed).toEqual(live);
+  });
+});
+
+describe("parseReplay", () => {
+  it("reads replays from before office layouts as classic", () => {
+    const replay = parseReplay(
+      JSON.stringify({ version: 1, seed: 1, level: 1, inputs: [], levels: [] })
+    );
+    expect(replay.layout).toBe("classic");
+  });
+
+  it("rejects files that aren't replays", () => {
+    expect(() => parseReplay("not json")).toThrow();
+    expect(() => parseReplay(JSON.stringify({ version: 1 }))).toThrow();
+    expect(() =>
+      parseReplay(
+        JSON.stringify({
+          version: 1,
+          seed: 1,
+          level: 1,
+          inputs: [[16384, 1]],
+          levels: [],
+        })
+      )
+    ).toThrow();
+  });
+});
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { levelSchema } from "./level";
+import { TickInput } from "./types";
+
+// A replay is the session seed plus every tick's input (one per player, plus
+// player two's steering in versus). Because the simulation is deterministic,
+// feeding the same inputs to a world built from the same seed reproduces the
+// run exactly.
+export const replaySchema = z.object({
+  version: z.literal(1),
+  seed: z.number().int().nonnegative(),
+  // Seniority level the world was created with
+  level: z.number().int().positive(),
+  // Maze generator id, "rotate" or curated level id; older replays predate
+  // layouts
+  layout: z.string().default("classic"),
+  // Custom (non-curated) levels travel with the replay
+  office: levelSchema.optional(),
+  // Whether each new seniority level moved the run onto a fresh floor
+  freshFloors: z.boolean().default(false),
+  // Local co-op: how many players there were, and whether they drew on one
+  // pool of lives or had their own
+  players: z.number().int().min(1).max(2).default(1),
+  sharedLives: z.boolean().default(true),
+  // Versus mode: player two steered an executive against the lone player
+  versus: z.boolean().default(false),
+  // 9-to-5 mode: the run was a workday on the office clock
+  workday: z.boolean().default(false),
+  // Run-length encoded per-tick input bitmasks: [mask, tickCount] pairs.
+  // Each player's input takes PLAYER_BITS bits, player one's lowest.
+  inputs: z.array(
+    z.tuple([z.number().int().min(0).max(16383), z.number().int().positive()])
+  ),
+  // Seniority level changes as [tick, level] pairs. The simulation only
+  // reports a floor's objectives done; moving up waits on the player leaving
+  // the level-complete summary, so we record the tick each new level began.
+  levels: z.array(
+    z.tuple([z.number().int().nonnegative(), z.number().int().positive()])
+  ),
+  recordedAt: z.string().optional(),
+});
+
+export type Replay = z.infer<typeof replaySchema>;
+
+// How many inputs each tick takes: one per player, and one more for the
+// executive player two steers in versus
+export const controllerCount = ({
+  players,
+  versus,
+}: Pick<Replay, "players" | "versus">) => players + (versus ? 1 : 0);
+
+const UP = 1;
+const DOWN = 2;
+const LEFT = 4;
+const RIGHT = 8;
+const ACTION = 16;
+// The thrown hotbar slot (0 for none) sits in the bits above the keys
+const THROW_SHIFT = 5;
+const THROW_MASK = 3;
+// Bits taken by one player's input
+const PLAYER_BITS = 7;
+const PLAYER_MASK = (1 << PLAYER_BITS) - 1;
+
+export const encodeInput = (input: TickInput) =>
+  (input.up ? UP : 0) |
+  (input.down ? DOWN : 0) |
+  (input.left ? LEFT : 0) |
+  (input.right ? RIGHT : 0) |
+  (input.action ? ACTION : 0) |
+  (input.throwSlot << THROW_SHIFT);
+
+export const decodeInput = (mask: number): TickInput => ({
+  up: (mask & UP) !== 0,
+  down: (mask & DOWN) !== 0,
+  left: (mask & LEFT) !== 0,
+  right: (mask & RIGHT) !== 0,
+  action: (mask & ACTION) !== 0,
+  throwSlot: (mask >> THROW_SHIFT) & THROW_MASK,
+});
+
+// All players' inputs for one tick, packed into one mask
+const encodeInputs = (inputs: TickInput[]) =>
+  inputs.reduce(
+    (mask, input, index) =>
+      mask | (encodeInput(input) << (PLAYER_BITS * index)),
+    0
+  );
+
+const decodeInputs = (mask: number, players: number): TickInput[] =>
+  Array.from({ length: players }, (_, index) =>
+    decodeInput((mask >> (PLAYER_BITS * index)) & PLAYER_MASK)
+  );
+
+export const replayTickCount = (replay: Replay) =>
+  replay.inputs.reduce((total, [, count]) => total + count, 0);
+
+export interface ReplayRecorder {
+  // Append one tick's inputs and the level it ran at
+  record: (inputs: TickInput[], level: number) => void;
+  // Snapshot of everything recorded so far
+  replay: () => Replay;
+}
+
+// Everything needed to rebuild a run's first world
+export type ReplaySetup = Pick<
+  Replay,
+  | "seed"
+  | "level"
+  | "layout"
+  | "office"
+  | "freshFloors"
+  | "players"
+  | "sharedLives"
+  | "versus"
+  | "workday"
+>;
+
+export const createReplayRecorder = (setup: ReplaySetup): ReplayRecorder => {
+  const inputs: [number, number][] = [];
+  const levels: [number, number][] = [];
+  let tick = 0;
+  let currentLevel = setup.level;
+
+  return {
+    record: (tickInputs, tickLevel) => {
+      if (tickLevel !== currentLevel) {
+        levels.push([tick, tickLevel]);
+        currentLevel = tickLevel;
+      }
+      const mask = encodeInputs(tickInputs);
+      const last = inputs[inputs.length - 1];
+      if (last && last[0] === mask) {
+        last[1] += 1;
+      } else {
+        inputs.push([mask, 1]);
+      }
+      tick += 1;
+    },
+    replay: () => ({
+      version: 1,
+      ...setup,
+      inputs: inputs.map(([mask, count]) => [mask, count]),
+      levels: levels.map(([at, lvl]) => [at, lvl]),
+      recordedAt: new Date().toISOString(),
+    }),
+  };
+};
+
+export interface ReplayFrame {
+  // One per player
+  inputs: TickInput[];
+  level: number;
+}
+
+export interface ReplayPlayer {
+  // The next tick's inputs and level, or null once the recording is exhausted
+  next: () => ReplayFrame | null;
+}
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  let runIndex = 0;
+  let usedInRun = 0;
+  let levelIndex = 0;
+  let tick = 0;
+  let level = replay.level;
+
+  return {
+    next: () => {
+      const run = replay.inputs[runIndex];
+      if (!run) return null;
+
+      while (
+        levelIndex < replay.levels.length &&
+        replay.levels[levelIndex][0] <= tick
+      ) {
+        level = replay.levels[levelIndex][1];
+        levelIndex += 1;
+      }
+
+      const frame = {
+        inputs: decodeInputs(run[0], controllerCount(replay)),
+        level,
+      };
+      usedInRun += 1;
+      if (usedInRun >= run[1]) {
+        runIndex += 1;
+        usedInRun = 0;
+      }
+      tick += 1;
+      return frame;
+    },
+  };
+};
+
+// Parse and validate a replay file's contents. Throws on malformed input.
+export const parseReplay = (text: string): Replay =>
+  replaySchema.parse(JSON.parse(text));
@@ -0,0 +1,308 @@
+import { describe, expect, it } from "vitest";
+import {
+  DETECTION_CHASE_THRESHOLD,
+  EXECUTIVE_SEARCH_DURATION,
+  EXECUTIVE_SUSPICIOUS_DURATION,
+  FIXED_TIMESTEP,
+  MAZE_HEIGHT,
+  MAZE_WIDTH,
+} from "./constants";
+import { IDLE_INPUT, step } from "./simulation";
+import { Collectible, Executive, TickInput, World } from "./types";
+import { createWorld } from "./world";
+
+// An office with nothing but its outer walls, one executive and no items,
+// so a test only has to set up what it's about
+const openOffice = (exec: Partial<Executive> = {}, players = 1): World => {
+  const world = createWorld(1, 1, undefined, undefined, players);
+  return {
+    ...world,
+    maze: Array.from({ length: MAZE_HEIGHT }, (_, y) =>
+      Array.from(
+        { length: MAZE_WIDTH },
+        (_, x) =>
+          x === 0 || y === 0 || x === MAZE_WIDTH - 1 || y === MAZE_HEIGHT - 1
+      )
+    ),
+    executives: [{ ...world.executives[0], ...exec }],
+    collectibles: [],
+    hidingSpots: [],
+  };
+};
+
+const run = (world: World, ticks: number, input = IDLE_INPUT) => {
+  const events: World["events"] = [];
+  for (let i = 0; i < ticks; i++) {
+    world = step(world, [input]);
+    events.push(...world.events);
+  }
+  return { world, events };
+};
+
+describe("catching the player", () => {
+  // `distance` cells to the player's left, committed to their heading
+  const watching = (
+    distance: number,
+    direction: Executive["direction"],
+    exec: Partial<Executive> = {}
+  ) => {
+    const { x, y } = openOffice().players[0].position;
+    return openOffice({
+      position: { x: x - distance, y },
+      direction,
+      stepsRemaining: 15,
+      ...exec,
+    });
+  };
+
+  it("only grows suspicious of a player it merely sees", () => {
+    const { world, events } = run(watching(3, { x: 1, y: 0 }), 1);
+    expect(events.some((e) => e.type === "caught")).toBe(false);
+    expect(world.executives[0].state).toBe("suspicious");
+    expect(world.executives[0].suspicion).toBeGreaterThan(0);
+  });
+
+  it("catches a player once an executive's suspicion fills up", () => {
+    const { world, events } = run(
+      watching(3, { x: 1, y: 0 }, { suspicion: 0.999 }),
+      1
+    );
+    expect(events).toContainEqual(expect.objectContaining({ type: "caught" }));
+    expect(world.executives[0].suspicion).toBe(0);
+  });
+
+  it("catches a player a chasing executive reaches", () => {
+    const { world, events } = run(
+      watching(1, { x: 1, y: 0 }, { state: "chase" }),
+      1
+    );
+    expect(events).toContainEqual(expect.objectContaining({ type: "caught" }));
+    expect(world.players[0].invincibilityTimer).toBeGreaterThan(0);
+    // Satisfied, the catcher heads back to patrol
+    expect(world.executives[0].state).toBe("return");
+  });
+
+  it("lets a player behind the executive go", () => {
+    const { world, events } = run(
+      watching(3, { x: -1, y: 0 }, { suspicion: 0.999 }),
+      1
+    );
+    expect(events.some((e) => e.type === "caught")).toBe(false);
+    expect(world.executives[0].state).toBe("patrol");
+    // Out of sight, the doubt drains away
+    expect(world.executives[0].suspicion).toBeLessThan(0.999);
+  });
+
+  it("never catches a player who is still invincible", () => {
+    const world = watching(1, { x: 1, y: 0 }, { state: "chase" });
+    const { events } = run(
+      {
+        ...world,
+        players: [{ ...world.players[0], invincibilityTimer: 60 }],
+      },
+      1
+    );
+    expect(events.some((e) => e.type === "caught")).toBe(false);
+  });
+
+  it("catches whichever co-op player it reaches", () => {
+    const world = openOffice({}, 2);
+    const [one, two] = world.players;
+    const chased = {
+      ...world,
+      players: [one, { ...two, position: { x: 30, y: 6 } }],
+      executives: [
+        {
+          ...world.executives[0],
+          position: { x: 29, y: 6 },
+          direction: { x: 1, y: 0 },
+          state: "chase" as const,
+          stepsRemaining: 15,
+        },
+      ],
+    };
+    const { world: after, events } = run(chased, 1);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "caught", player: 1 })
+    );
+    expect(after.players[1].invincibilityTimer).toBeGreaterThan(0);
+    expect(after.players[0].invincibilityTimer).toBe(0);
+  });
+});
+
+describe("executive AI", () => {
+  // An executive four cells left of the player, looking at them or away
+  const executive = (exec: Partial<Executive>, looking = true) => {
+    const { x, y } = openOffice().players[0].position;
+    return openOffice({
+      position: { x: x - 4, y },
+      direction: { x: looking ? 1 : -1, y: 0 },
+      ...exec,
+    });
+  };
+  const after = (world: World, ticks = 1) =>
+    run(world, ticks).world.executives[0];
+
+  it("turns suspicious at a glimpse and remembers where they were", () => {
+    const exec = after(executive({ state: "patrol" }));
+    expect(exec.state).toBe("suspicious");
+    expect(exec.stateTimer).toBe(EXECUTIVE_SUSPICIOUS_DURATION);
+    expect(exec.patrolPoint).toEqual({ x: 16, y: 12 });
+  });
+
+  it("gives chase once half sure of what they saw", () => {
+    const world = executive({
+      state: "suspicious",
+      stateTimer: EXECUTIVE_SUSPICIOUS_DURATION,
+      suspicion: DETECTION_CHASE_THRESHOLD,
+    });
+    expect(after(world).state).toBe("chase");
+  });
+
+  it("heads back to patrol when the player slips out of a stare", () => {
+    const world = executive(
+      { state: "suspicious", stateTimer: FIXED_TIMESTEP / 2 },
+      false
+    );
+    expect(after(world).state).toBe("return");
+  });
+
+  it("chases along a path and searches where the player was last seen", () => {
+    const chasing = after(executive({ state: "chase" }));
+    expect(chasing.state).toBe("chase");
+    expect(chasing.path.length).toBeGreaterThan(0);
+    expect(chasing.position.x).toBeGreaterThan(16);
+
+    const lost = after(
+      executive({ state: "chase", pointOfInterest: { x: 10, y: 12 } }, false)
+    );
+    expect(lost.state).toBe("search");
+    expect(lost.stateTimer).toBe(EXECUTIVE_SEARCH_DURATION);
+    expect(lost.path.at(-1)).toEqual({ x: 10, y: 12 });
+  });
+
+  it("gives up a search once it times out, then returns to patrol", () => {
+    const searching = executive(
+      {
+        state: "search",
+        stateTimer: FIXED_TIMESTEP / 2,
+        path: [],
+        patrolPoint: { x: 10, y: 12 },
+      },
+      false
+    );
+    const returning = after(searching);
+    expect(returning.state).toBe("return");
+    expect(returning.path.at(-1)).toEqual({ x: 10, y: 12 });
+
+    expect(
+      after({ ...searching, executives: [{ ...returning, path: [] }] })
+    ).toMatchObject({ state: "patrol", patrolPoint: undefined });
+  });
+
+  it("drops everything when scared", () => {
+    const exec = after(
+      executive({ state: "chase", isScared: true, scaredTimer: 1 })
+    );
+    expect(exec).toMatchObject({ state: "patrol", path: undefined });
+  });
+});
+
+describe("hearing vandalism", () => {
+  // A whiteboard next to the player and an executive `distance` cells past
+  // it, looking away
+  const vandalizing = (distance: number) => {
+    const world = openOffice();
+    const { x, y } = world.players[0].position;
+    return {
+      ...openOffice({
+        position: { x: x + 1 + distance, y },
+        direction: { x: 1, y: 0 },
+      }),
+      collectibles: [
+        { position: { x: x + 1, y }, type: "wall" as const, collected: false },
+      ],
+    };
+  };
+
+  it("sends an executive within earshot to investigate", () => {
+    const { world, events } = run(vandalizing(4), 1, {
+      ...IDLE_INPUT,
+      action: true,
+    });
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "noise", position: { x: 21, y: 12 } })
+    );
+    expect(world.executives[0]).toMatchObject({
+      state: "search",
+      pointOfInterest: { x: 21, y: 12 },
+    });
+  });
+
+  it("goes unheard further away than it carries", () => {
+    const { world } = run(vandalizing(10), 1, { ...IDLE_INPUT, action: true });
+    expect(world.executives[0].state).toBe("patrol");
+  });
+});
+
+describe("coin expiry", () => {
+  const coin: Collectible = {
+    position: { x: 2, y: 2 },
+    type: "coin",
+    collected: false,
+    value: 10,
+    expireTimer: 5 * FIXED_TIMESTEP,
+  };
+
+  it("keeps a coin until its timer runs out, then removes it", () => {
+    const start = {
+      ...openOffice({ position: { x: 30, y: 20 } }),
+      collectibles: [coin],
+    };
+
+    const early = run(start, 4).world.collectibles[0];
+    expect(early.collected).toBe(false);
+    expect(early.expireTimer).toBeCloseTo(FIXED_TIMESTEP);
+
+    const late = run(start, 6);
+    expect(late.world.collectibles[0].collected).toBe(true);
+    // Expired, not picked up: nobody scores for it
+    expect(late.events.some((e) => e.type === "score")).toBe(false);
+  });
+});
+
+describe("determinism", () => {
+  // A walk around in a square, vandalizing all the way
+  const inputAt = (tick: number): TickInput => {
+    const leg = Math.floor((tick % 240) / 60);
+    return {
+      ...IDLE_INPUT,
+      right: leg === 0,
+      up: leg === 1,
+      left: leg === 2,
+      down: leg === 3,
+      action: tick % 30 === 0,
+    };
+  };
+
+  const play = (seed: number, ticks: number) => {
+    let world = createWorld(seed);
+    for (let i = 0; i < ticks; i++) world = step(world, [inputAt(i)]);
+    return world;
+  };
+
+  it("plays the same seed and inputs out the same way", () => {
+    expect(play(7, 1200)).toEqual(play(7, 1200));
+  });
+
+  it("never mutates the world it is given", () => {
+    const world = createWorld(7);
+    const before = structuredClone(world);
+    step(world, [inputAt(0)]);
+    expect(world).toEqual(before);
+  });
+
+  it("builds a different office from a different seed", () => {
+    expect(createWorld(7).maze).not.toEqual(createWorld(8).maze);
+  });
+});
@@ -0,0 +1,1767 @@
+import {
+  CATCH_COOLDOWN,
+  COIN_BOUNCE_DURATION,
+  COIN_EXPIRE_DURATION,
+  COIN_POP_DURATION,
+  COMBO_MAX_MULTIPLIER,
+  COMBO_WINDOW,
+  DETECTION_CHASE_THRESHOLD,
+  DETECTION_DRAIN_RATE,
+  DETECTION_FILL_RATE,
+  EXECUTIVE_AMBUSH_LEAD,
+  EXECUTIVE_AMBUSH_REPLAN_INTERVAL,
+  EXECUTIVE_BASE_STEP_RATE,
+  EXECUTIVE_CAMP_DURATION,
+  EXECUTIVE_CATCH_DISTANCE,
+  EXECUTIVE_CHASE_SPEED,
+  EXECUTIVE_DROP_INTERVAL,
+  EXECUTIVE_FLEE_SPEED,
+  EXECUTIVE_LOOK_INTERVAL,
+  EXECUTIVE_REPLAN_INTERVAL,
+  EXECUTIVE_RETURN_SPEED,
+  EXECUTIVE_SEARCH_DURATION,
+  EXECUTIVE_SEARCH_SPEED,
+  EXECUTIVE_STANDUP_RADIUS,
+  EXECUTIVE_STEP,
+  EXECUTIVE_SUSPICIOUS_DURATION,
+  FIXED_TIMESTEP,
+  HIDE_COOLDOWN,
+  INVINCIBILITY_DURATION,
+  KICKME_NOISE,
+  MAGNET_RADIUS,
+  MAGNET_SPEED,
+  MAX_DROPPED_ITEMS,
+  MAZE_HEIGHT,
+  MAZE_WIDTH,
+  PLAYER_SPEED,
+  PROJECTILE_HIT_RADIUS,
+  SCARED_DURATION,
+  WORKDAY_LENGTH,
+} from "./constants";
+import { COLLECTIBLE_TYPES, ITEM_TYPES, ItemType } from "./collectibles";
+import { findHidingSpot, HIDING_SPOT_TYPES } from "./hidingSpots";
+import { canSpriteMoveTo } from "./maze";
+import { noiseDistanceAt, noiseDistances } from "./noise";
+import { trackObjective } from "./objectives";
+import { applyPowerUp, hasEffect, tickEffects } from "./powerups";
+import { findPath } from "./pathfinding";
+import { createRng, Random, shuffle } from "./random";
+import { drawThrowable, stowThrowable, THROWABLES } from "./throwables";
+import {
+  Collectible,
+  Executive,
+  ExecutiveProfile,
+  GameEvent,
+  HidingSpot,
+  ObjectiveProgress,
+  PlayerState,
+  Position,
+  Projectile,
+  TickInput,
+  World,
+} from "./types";
+import { eyePosition, polygonContains, visionPolygon } from "./visibility";
+import { currentPhase, officeMinutes, onTheClock } from "./workday";
+import { blocksPlacement, spritesOverlap } from "./world";
+
+export const IDLE_INPUT: TickInput = {
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  action: false,
+  throwSlot: 0,
+};
+
+// Pick up to `count` random open cells within `radius` of the centre that no
+// other live collectible already occupies.
+const findCoinPositions = (
+  maze: boolean[][],
+  collectibles: Collectible[],
+  center: Position,
+  radius: number,
+  count: number,
+  random: Random
+): Position[] => {
+  const candidates: Position[] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const x = Math.floor(center.x) + dx;
+      const y = Math.floor(center.y) + dy;
+      if (
+        x >= 0 &&
+        x < MAZE_WIDTH &&
+        y >= 0 &&
+        y < MAZE_HEIGHT &&
+        !maze[y][x] &&
+        !collectibles.some(
+          (c) => !c.collected && c.position.x === x && c.position.y === y
+        )
+      ) {
+        candidates.push({ x, y });
+      }
+    }
+  }
+  return shuffle(candidates, random).slice(0, count);
+};
+
+// Coins bounce out of the item (or executive) that dropped them.
+const spawnCoins = (
+  world: World,
+  center: Position,
+  radius: number,
+  count: number,
+  value: number,
+  random: Random
+): Collectible[] => {
+  const startPos = { x: center.x, y: center.y };
+  return findCoinPositions(
+    world.maze,
+    world.collectibles,
+    center,
+    radius,
+    count,
+    random
+  ).map((pos) => ({
+    position: pos, // Final position
+    type: "coin" as const,
+    collected: false,
+    value,
+    expireTimer: COIN_EXPIRE_DURATION,
+    animationStartPos: startPos, // Start animation from the source position
+    animationProgress: 0, // Start at 0, will animate to 1
+  }));
+};
+
+// A noise of the given loudness carries that many cells along open floor,
+// scaled by each executive's hearing. Those who hear it react according to
+// their profile: a glance makes them suspicious of the spot, an
+// investigation sends them to search it. Anyone already suspicious or
+// chasing is too busy to notice.
+const hearNoise = (
+  maze: boolean[][],
+  executives: Executive[],
+  position: Position,
+  loudness: number
+): Executive[] => {
+  const maxHearing = Math.max(0, ...executives.map((e) => e.profile.hearing));
+  const distances = noiseDistances(maze, position, loudness * maxHearing);
+
+  return executives.map((exec) => {
+    const { noiseReaction, hearing } = exec.profile;
+    if (
+      exec.isScared ||
+      noiseReaction === "ignore" ||
+      exec.state === "suspicious" ||
+      exec.state === "chase" ||
+      noiseDistanceAt(distances, exec.position) > loudness * hearing
+    ) {
+      return exec;
+    }
+
+    const alerted = {
+      ...exec,
+      pointOfInterest: { ...position },
+      patrolPoint: exec.patrolPoint ?? { ...exec.position },
+    };
+    if (noiseReaction === "glance") {
+      return {
+        ...alerted,
+        state: "suspicious",
+        stateTimer: EXECUTIVE_SUSPICIOUS_DURATION,
+        path: undefined,
+      };
+    }
+    return {
+      ...alerted,
+      state: "search",
+      stateTimer: EXECUTIVE_SEARCH_DURATION,
+      path: findPath(maze, exec.position, position) ?? [],
+    };
+  });
+};
+
+// Coin multiplier for the nth hit of a combo
+export const comboMultiplier = (chain: number) =>
+  Math.min(COMBO_MAX_MULTIPLIER, Math.max(1, chain));
+
+const isNear = (a: Position, b: Position) =>
+  Math.abs(a.x - b.x) <= 1 && Math.abs(a.y - b.y) <= 1;
+
+// Damage an item and bounce its coins out, each worth `value`. What happens
+// when the damage wears off is up to the item's type.
+const damageItem = (
+  world: World,
+  collectibles: Collectible[],
+  item: Collectible,
+  value: number,
+  random: Random
+): Collectible[] => {
+  const definition = COLLECTIBLE_TYPES[item.type];
+  const newCoins = spawnCoins(
+    { ...world, collectibles },
+    item.position,
+    3,
+    definition.coinYield,
+    value,
+    random
+  );
+  return [
+    ...collectibles.map((c) =>
+      c === item
+        ? { ...c, damaged: true, damageTimer: definition.damageDuration }
+        : c
+    ),
+    ...newCoins,
+  ];
+};
+
+// Stick a kick-me sign on an executive: they drop 10 coins, each worth
+// `value`, and flee. Their yelp is left to the caller, so that several
+// executives scared at once all hear each other out.
+const scareExecutive = (
+  world: World,
+  collectibles: Collectible[],
+  exec: Executive,
+  value: number,
+  random: Random
+): {
+  executive: Executive;
+  collectibles: Collectible[];
+  events: GameEvent[];
+} => ({
+  executive: { ...exec, isScared: true, scaredTimer: SCARED_DURATION },
+  collectibles: [
+    ...collectibles,
+    ...spawnCoins(
+      { ...world, collectibles },
+      exec.position,
+      2,
+      10,
+      value,
+      random
+    ),
+  ],
+  events: [
+    { type: "sound", sound: "kickme", position: exec.position },
+    { type: "scared", executive: exec.name },
+  ],
+});
+
+// Swap in a new state for the player at `index` in world.players
+const withPlayer = (
+  world: World,
+  index: number,
+  player: PlayerState
+): World => ({
+  ...world,
+  players: world.players.map((p, i) => (i === index ? player : p)),
+});
+
+// Report hits a player landed since their combo stood at its current chain,
+// and give them a fresh window to land the next one
+const extendCombo = (world: World, index: number, combo: number): World => {
+  const player = world.players[index];
+  if (combo === player.combo) return world;
+  return {
+    ...withPlayer(world, index, { ...player, combo, comboTimer: COMBO_WINDOW }),
+    events: [
+      ...world.events,
+      {
+        type: "combo",
+        player: index,
+        chain: combo,
+        multiplier: comboMultiplier(combo),
+      },
+    ],
+  };
+};
+
+// A player's action key damages a nearby object (dropping coins), uses up a
+// power-up, picks up a throwable, or sticks a kick-me sign on a nearby
+// executive. Every vandalism and kick-me extends that player's combo, and
+// its coins are worth the combo's multiplier.
+const applyAction = (world: World, index: number, random: Random): World => {
+  const player = world.players[index];
+  const playerPos = player.position;
+  const events: GameEvent[] = [];
+  let combo = player.combo;
+  const hit = () => {
+    combo += 1;
+    return comboMultiplier(combo);
+  };
+
+  const nearby = world.collectibles.find(
+    (c) =>
+      !c.collected &&
+      !c.damaged &&
+      c.type !== "coin" &&
+      isNear(c.position, playerPos)
+  );
+
+  let collectibles = world.collectibles;
+  let executives = world.executives;
+  if (nearby) {
+    const definition = COLLECTIBLE_TYPES[nearby.type];
+    events.push({
+      type: "sound",
+      sound: nearby.type,
+      position: nearby.position,
+    });
+    if (definition.noise > 0) {
+      events.push({
+        type: "noise",
+        position: nearby.position,
+        loudness: definition.noise,
+      });
+      executives = hearNoise(
+        world.maze,
+        executives,
+        nearby.position,
+        definition.noise
+      );
+    }
+
+    if (definition.effect === "powerUp") {
+      // Power-up: collect it entirely (it disappears)
+      const powerUp = applyPowerUp(player, index, definition.powerUp);
+      return {
+        ...withPlayer(world, index, powerUp.player),
+        executives,
+        collectibles: collectibles.map((c) =>
+          c === nearby ? { ...c, collected: true } : c
+        ),
+        events: [...world.events, ...events, ...powerUp.events],
+      };
+    }
+
+    if (definition.effect === "carry") {
+      // Throwable: into the hotbar, or left where it is if that's full (and
+      // the action carries on to any executive in reach)
+      const stowed = stowThrowable(player, index, definition.throwable);
+      if (stowed) {
+        return {
+          ...withPlayer(world, index, stowed.player),
+          executives,
+          collectibles: collectibles.map((c) =>
+            c === nearby ? { ...c, collected: true } : c
+          ),
+          events: [...world.events, ...events, ...stowed.events],
+        };
+      }
+    } else {
+      // Damage the item (keep it visible but modified) and spawn its coins on
+      // nearby tiles
+      events.push({ type: "vandalized", item: nearby.type as ItemType });
+      collectibles = damageItem(world, collectibles, nearby, hit(), random);
+    }
+  }
+
+  // Check for nearby executives to put kick-me sign; each one drops 10 coins
+  // and yelps loud enough for colleagues to hear
+  const yelps: Position[] = [];
+  executives = executives.map((exec) => {
+    if (exec.isScared || !isNear(exec.position, playerPos)) return exec;
+    const scared = scareExecutive(world, collectibles, exec, hit(), random);
+    events.push(...scared.events);
+    yelps.push(exec.position);
+    collectibles = scared.collectibles;
+    return scared.executive;
+  });
+  for (const position of yelps) {
+    events.push({ type: "noise", position, loudness: KICKME_NOISE });
+    executives = hearNoise(world.maze, executives, position, KICKME_NOISE);
+  }
+
+  return extendCombo(
+    {
+      ...world,
+      executives,
+      collectibles,
+      events: [...world.events, ...events],
+    },
+    index,
+    combo
+  );
+};
+
+// Throw one throw's worth of a hotbar slot's item the way the player is
+// facing (to the right if they haven't moved yet)
+const throwItem = (world: World, index: number, slot: number): World => {
+  const player = world.players[index];
+  const drawn = drawThrowable(player, index, slot);
+  if (!drawn) return world;
+  const { x, y } = player.direction;
+  const length = Math.hypot(x, y);
+  return {
+    ...withPlayer(world, index, drawn.player),
+    projectiles: [
+      ...world.projectiles,
+      {
+        item: drawn.item,
+        thrower: index,
+        position: eyePosition(player.position),
+        direction:
+          length > 0 ? { x: x / length, y: y / length } : { x: 1, y: 0 },
+        range: THROWABLES[drawn.item].range,
+      },
+    ],
+    events: [...world.events, ...drawn.events],
+  };
+};
+
+// Projectiles fly in hops this long (in cells), so they can't skip through
+// a wall or past a target in a single tick
+const PROJECTILE_HOP = 0.25;
+
+// Whether a projectile at `position` has hit something standing at `target`
+const projectileHits = (position: Position, target: Position) => {
+  const centre = eyePosition(target);
+  return (
+    Math.hypot(centre.x - position.x, centre.y - position.y) <=
+    PROJECTILE_HIT_RADIUS
+  );
+};
+
+// Move thrown items along. Each stops at the first wall, the end of its
+// range, or the first thing it hits: one of its target items gets vandalized
+// and an executive gets a kick-me sign, just as if the thrower had done it up
+// close (combo included).
+const tickProjectiles = (world: World, dt: number, random: Random): World => {
+  if (world.projectiles.length === 0) return world;
+  const events: GameEvent[] = [];
+  const noises: { position: Position; loudness: number }[] = [];
+  let { collectibles, executives } = world;
+  const combos = world.players.map((player) => player.combo);
+  const hit = (thrower: number) => {
+    combos[thrower] += 1;
+    return comboMultiplier(combos[thrower]);
+  };
+
+  const projectiles: Projectile[] = [];
+  for (const projectile of world.projectiles) {
+    const { speed, targets, hitsExecutives } = THROWABLES[projectile.item];
+    const { direction } = projectile;
+    let { position, range } = projectile;
+    let travel = Math.min(speed * dt, range);
+    let landed = false;
+
+    while (travel > 0 && !landed) {
+      const hop = Math.min(PROJECTILE_HOP, travel);
+      travel -= hop;
+      range -= hop;
+      position = {
+        x: position.x + direction.x * hop,
+        y: position.y + direction.y * hop,
+      };
+      const cellX = Math.floor(position.x);
+      const cellY = Math.floor(position.y);
+      if (
+        cellX < 0 ||
+        cellX >= MAZE_WIDTH ||
+        cellY < 0 ||
+        cellY >= MAZE_HEIGHT ||
+        world.maze[cellY][cellX]
+      ) {
+        landed = true;
+        break;
+      }
+
+      const target = collectibles.find(
+        (c) =>
+          !c.collected &&
+          !c.damaged &&
+          c.type !== "coin" &&
+          targets.includes(c.type) &&
+          projectileHits(position, c.position)
+      );
+      if (target) {
+        landed = true;
+        const { noise } = COLLECTIBLE_TYPES[target.type as ItemType];
+        events.push(
+          {
+            type: "sound",
+            sound: target.type as ItemType,
+            position: target.position,
+          },
+          { type: "vandalized", item: target.type as ItemType }
+        );
+        if (noise > 0)
+          noises.push({ position: target.position, loudness: noise });
+        collectibles = damageItem(
+          world,
+          collectibles,
+          target,
+          hit(projectile.thrower),
+          random
+        );
+        break;
+      }
+
+      const victim = hitsExecutives
+        ? executives.find(
+            (exec) => !exec.isScared && projectileHits(position, exec.position)
+          )
+        : undefined;
+      if (victim) {
+        landed = true;
+        const scared = scareExecutive(
+          world,
+          collectibles,
+          victim,
+          hit(projectile.thrower),
+          random
+        );
+        events.push(...scared.events);
+        noises.push({ position: victim.position, loudness: KICKME_NOISE });
+        collectibles = scared.collectibles;
+        executives = executives.map((exec) =>
+          exec === victim ? scared.executive : exec
+        );
+      }
+    }
+
+    if (!landed && range > 0) {
+      projectiles.push({ ...projectile, position, range });
+    }
+  }
+
+  for (const { position, loudness } of noises) {
+    events.push({ type: "noise", position, loudness });
+    executives = hearNoise(world.maze, executives, position, loudness);
+  }
+
+  return combos.reduce(
+    (next, combo, index) => extendCombo(next, index, combo),
+    {
+      ...world,
+      projectiles,
+      executives,
+      collectibles,
+      events: [...world.events, ...events],
+    }
+  );
+};
+
+const movePlayer = (
+  maze: boolean[][],
+  player: PlayerState,
+  input: TickInput,
+  dt: number
+): PlayerState => {
+  let dx = 0;
+  let dy = 0;
+  const speed =
+    (hasEffect(player, "speedBoost") ? PLAYER_SPEED * 2 : PLAYER_SPEED) * dt;
+
+  if (input.up) dy = -speed;
+  if (input.down) dy = speed;
+  if (input.left) dx = -speed;
+  if (input.right) dx = speed;
+
+  if (dx === 0 && dy === 0) return player;
+
+  let newX = player.position.x;
+  let newY = player.position.y;
+
+  // Try horizontal and vertical movement separately so the player slides
+  // along walls instead of sticking to them.
+  if (dx !== 0 && canSpriteMoveTo(maze, newX + dx, newY)) {
+    newX += dx;
+  }
+  if (dy !== 0 && canSpriteMoveTo(maze, newX, newY + dy)) {
+    newY += dy;
+  }
+
+  return {
+    ...player,
+    position: { x: newX, y: newY },
+    direction: { x: dx, y: dy },
+  };
+};
+
+const tickPlayerTimers = (player: PlayerState, dt: number): PlayerState => ({
+  ...player,
+  invincibilityTimer: Math.max(0, player.invincibilityTimer - dt),
+  catchCooldown: Math.max(0, player.catchCooldown - dt),
+});
+
+const isHidden = (player: PlayerState) => player.hideTimer > 0;
+
+// Standing in a hiding spot hides the player for as long as the spot
+// allows. Stepping out, or running out of time, ends it, and the cooldown
+// only runs down out in the open, so a spent spot can't be waited out.
+const updateHiding = (
+  player: PlayerState,
+  hidingSpots: HidingSpot[],
+  dt: number
+): PlayerState => {
+  const spot = findHidingSpot(hidingSpots, player.position);
+
+  if (isHidden(player)) {
+    const hideTimer = spot ? Math.max(0, player.hideTimer - dt) : 0;
+    return {
+      ...player,
+      hideTimer,
+      hideCooldown: hideTimer > 0 ? 0 : HIDE_COOLDOWN,
+    };
+  }
+  if (!spot) {
+    return { ...player, hideCooldown: Math.max(0, player.hideCooldown - dt) };
+  }
+  if (player.hideCooldown > 0) return player;
+  return { ...player, hideTimer: HIDING_SPOT_TYPES[spot.type].duration };
+};
+
+const QUARTER_TURNS = [
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+];
+
+// Snap a direction to the nearest of the four grid directions
+const cardinal = (direction: Position): Position =>
+  Math.abs(direction.x) >= Math.abs(direction.y)
+    ? { x: direction.x < 0 ? -1 : 1, y: 0 }
+    : { x: 0, y: direction.y < 0 ? -1 : 1 };
+
+// Screen coordinates: y grows downwards
+const turnRight = (d: Position): Position => ({ x: -d.y, y: d.x });
+const turnLeft = (d: Position): Position => ({ x: d.y, y: -d.x });
+
+// Standing still, turn a quarter every EXECUTIVE_LOOK_INTERVAL of a countdown
+// that started at `duration` and just went from `before` to `after`.
+const lookAround = (
+  direction: Position,
+  duration: number,
+  before: number,
+  after: number
+): Position => {
+  const turnsBefore = Math.floor((duration - before) / EXECUTIVE_LOOK_INTERVAL);
+  const turnsAfter = Math.floor((duration - after) / EXECUTIVE_LOOK_INTERVAL);
+  return turnsAfter > turnsBefore ? turnRight(direction) : direction;
+};
+
+// Patrol pace: the stock half-cell step rate, scaled by the profile and
+// compounding per level
+const patrolStepRate = (profile: ExecutiveProfile, level: number) =>
+  EXECUTIVE_BASE_STEP_RATE *
+  profile.patrolSpeed *
+  Math.pow(1 + profile.patrolSpeedup, Math.max(0, level - 1));
+
+// Chase, search and return pace, scaled by the profile and growing linearly
+// per level
+const alertSpeed = (speed: number, profile: ExecutiveProfile, level: number) =>
+  speed *
+  profile.chaseSpeed *
+  (1 + profile.chaseSpeedup * Math.max(0, level - 1));
+
+const unitToward = (from: Position, to: Position): Position => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const distance = Math.hypot(dx, dy);
+  return distance === 0
+    ? { x: 0, y: 0 }
+    : { x: dx / distance, y: dy / distance };
+};
+
+// Walk along the executive's path at `speed` cells per second, sliding along
+// walls like the player does. A blocked path is dropped so it gets re-planned.
+const followPath = (
+  maze: boolean[][],
+  exec: Executive,
+  speed: number,
+  dt: number
+): Executive => {
+  let remaining = speed * dt;
+  let { position, direction } = exec;
+  let path = exec.path ?? [];
+
+  while (remaining > 0 && path.length > 0) {
+    const target = path[0];
+    const distance = Math.hypot(target.x - position.x, target.y - position.y);
+    if (distance > 0) direction = unitToward(position, target);
+
+    if (distance <= remaining) {
+      position = target;
+      path = path.slice(1);
+      remaining -= distance;
+      continue;
+    }
+
+    const dx = direction.x * remaining;
+    const dy = direction.y * remaining;
+    let { x, y } = position;
+    if (dx !== 0 && canSpriteMoveTo(maze, x + dx, y)) x += dx;
+    if (dy !== 0 && canSpriteMoveTo(maze, x, y + dy)) y += dy;
+    if (x === position.x && y === position.y) {
+      path = [];
+    }
+    position = { x, y };
+    remaining = 0;
+  }
+
+  return { ...exec, position, direction, path };
+};
+
+// Pick the next heading for the step-based patrol styles, or null when no
+// direction is walkable this tick.
+const chooseHeading = (
+  maze: boolean[][],
+  exec: Executive,
+  random: Random
+): { direction: Position; stepsRemaining: number } | null => {
+  const step = EXECUTIVE_STEP;
+  const { x, y } = exec.position;
+  const canStep = (dir: Position, from: Position = exec.position) =>
+    canSpriteMoveTo(maze, from.x + dir.x * step, from.y + dir.y * step);
+  const heading = cardinal(exec.direction);
+
+  switch (exec.profile.patrol) {
+    case "wallFollower": {
+      // Turn right as soon as the wall on the right ends, otherwise keep
+      // going, turning left into corners
+      const right = turnRight(heading);
+      const behind = { x: x - heading.x * step, y: y - heading.y * step };
+      const options =
+        canStep(right) && !canStep(right, behind)
+          ? [right]
+          : [heading, turnLeft(heading), right, turnLeft(turnLeft(heading))];
+      const direction = options.find((dir) => canStep(dir));
+      return direction ? { direction, stepsRemaining: 1 } : null;
+    }
+
+    case "sweeper": {
+      // Straight on to the end of the corridor, then either way but back
+      if (canStep(heading)) return { direction: heading, stepsRemaining: 1 };
+      const direction = [
+        ...shuffle([turnLeft(heading), turnRight(heading)], random),
+        turnLeft(turnLeft(heading)),
+      ].find((dir) => canStep(dir));
+      return direction ? { direction, stepsRemaining: 1 } : null;
+    }
+
+    default: {
+      // Keep walking in the current direction until the commitment runs
+      // out, then choose a new one that is actually walkable
+      if ((exec.stepsRemaining ?? 0) > 0) {
+        return {
+          direction: exec.direction,
+          stepsRemaining: exec.stepsRemaining,
+        };
+      }
+      // Shuffle directions so choices feel varied
+      const direction = shuffle([...QUARTER_TURNS], random).find((dir) =>
+        canStep(dir)
+      );
+      // Commit to this direction for at least 15 steps
+      return direction ? { direction, stepsRemaining: 15 } : null;
+    }
+  }
+};
+
+// Wander, follow walls or sweep corridors: half-cell steps at random moments
+// in the heading the patrol style picks.
+const strollPatrol = (
+  maze: boolean[][],
+  exec: Executive,
+  level: number,
+  dt: number,
+  random: Random
+): Executive => {
+  if (random() >= patrolStepRate(exec.profile, level) * dt) return exec;
+
+  const heading = chooseHeading(maze, exec, random);
+  if (!heading) {
+    // No valid direction this tick
+    return exec;
+  }
+
+  const { direction, stepsRemaining } = heading;
+  const newX = exec.position.x + direction.x * EXECUTIVE_STEP;
+  const newY = exec.position.y + direction.y * EXECUTIVE_STEP;
+  if (canSpriteMoveTo(maze, newX, newY)) {
+    return {
+      ...exec,
+      position: { x: newX, y: newY },
+      direction,
+      stepsRemaining: stepsRemaining - 1,
+    };
+  }
+
+  // If blocked unexpectedly, force a new choice next tick
+  return { ...exec, stepsRemaining: 0 };
+};
+
+// Walk to a random spot, linger there looking around, then move on.
+const campPatrol = (
+  maze: boolean[][],
+  exec: Executive,
+  level: number,
+  dt: number,
+  random: Random
+): Executive => {
+  const speed = patrolStepRate(exec.profile, level) * EXECUTIVE_STEP;
+  if (exec.path?.length) return followPath(maze, exec, speed, dt);
+
+  if (exec.stateTimer > 0) {
+    const stateTimer = Math.max(0, exec.stateTimer - dt);
+    const direction = lookAround(
+      exec.direction,
+      EXECUTIVE_CAMP_DURATION,
+      exec.stateTimer,
+      stateTimer
+    );
+    return { ...exec, direction, stateTimer };
+  }
+
+  const spot = {
+    x: 1 + Math.floor(random() * (MAZE_WIDTH - 2)),
+    y: 1 + Math.floor(random() * (MAZE_HEIGHT - 2)),
+  };
+  if (!canSpriteMoveTo(maze, spot.x, spot.y)) return exec;
+  const path = findPath(maze, exec.position, spot);
+  if (!path) return exec;
+  return { ...exec, path, stateTimer: EXECUTIVE_CAMP_DURATION };
+};
+
+// The player closest to an executive, as the crow flies
+const nearestPlayer = (exec: Executive, players: PlayerState[]) =>
+  players.reduce((nearest, player) =>
+    Math.hypot(
+      player.position.x - exec.position.x,
+      player.position.y - exec.position.y
+    ) <
+    Math.hypot(
+      nearest.position.x - exec.position.x,
+      nearest.position.y - exec.position.y
+    )
+      ? player
+      : nearest
+  );
+
+// Head for a spot a few cells ahead of the nearest player, re-planning every
+// so often, and wait there for them to walk into view.
+const ambushPatrol = (
+  maze: boolean[][],
+  exec: Executive,
+  players: PlayerState[],
+  level: number,
+  dt: number
+): Executive => {
+  let ambusher = { ...exec, stateTimer: exec.stateTimer - dt };
+  if (ambusher.stateTimer <= 0) {
+    const player = nearestPlayer(exec, players);
+    const lead =
+      player.direction.x === 0 && player.direction.y === 0
+        ? { x: 0, y: 0 }
+        : cardinal(player.direction);
+    const target = {
+      x: player.position.x + lead.x * EXECUTIVE_AMBUSH_LEAD,
+      y: player.position.y + lead.y * EXECUTIVE_AMBUSH_LEAD,
+    };
+    ambusher = {
+      ...ambusher,
+      stateTimer: EXECUTIVE_AMBUSH_REPLAN_INTERVAL,
+      path: findPath(maze, exec.position, target) ?? [],
+    };
+  }
+  const speed = patrolStepRate(exec.profile, level) * EXECUTIVE_STEP;
+  return followPath(maze, ambusher, speed, dt);
+};
+
+// The 9-to-5 mode's morning stand-up: walk over until within a couple of
+// cells of the spot, then stand about looking around until it's over.
+// Executives who can't get there carry on with their usual rounds.
+const standupPatrol = (
+  maze: boolean[][],
+  exec: Executive,
+  spot: Position,
+  level: number,
+  dt: number
+): Executive | null => {
+  const speed = patrolStepRate(exec.profile, level) * EXECUTIVE_STEP;
+  if (exec.path?.length) return followPath(maze, exec, speed, dt);
+
+  const near = (cell: Position) =>
+    Math.hypot(spot.x - cell.x, spot.y - cell.y) <= EXECUTIVE_STANDUP_RADIUS;
+  if (!near(exec.position)) {
+    const path = findPath(maze, exec.position, spot);
+    if (!path) return null;
+    return { ...exec, path: path.slice(0, path.findIndex(near) + 1) };
+  }
+
+  const stateTimer =
+    exec.stateTimer > 0 ? exec.stateTimer - dt : EXECUTIVE_CAMP_DURATION;
+  const direction = lookAround(
+    exec.direction,
+    EXECUTIVE_CAMP_DURATION,
+    exec.stateTimer,
+    stateTimer
+  );
+  return { ...exec, direction, stateTimer };
+};
+
+// `gathering` is set while the 9-to-5 mode's morning stand-up is on
+const patrol = (
+  maze: boolean[][],
+  exec: Executive,
+  players: PlayerState[],
+  level: number,
+  dt: number,
+  random: Random,
+  gathering?: Position
+): Executive => {
+  const standingUp =
+    gathering && standupPatrol(maze, exec, gathering, level, dt);
+  if (standingUp) return standingUp;
+  switch (exec.profile.patrol) {
+    case "camper":
+      return campPatrol(maze, exec, level, dt, random);
+    case "ambusher":
+      return ambushPatrol(maze, exec, players, level, dt);
+    default:
+      return strollPatrol(maze, exec, level, dt, random);
+  }
+};
+
+// Give up the hunt and head back to where patrol was interrupted.
+const returnToPatrol = (maze: boolean[][], exec: Executive): Executive => ({
+  ...exec,
+  state: "return",
+  stateTimer: 0,
+  pointOfInterest: undefined,
+  path: findPath(maze, exec.position, exec.patrolPoint ?? exec.position) ?? [],
+});
+
+// Suspicion builds while a player is in view, faster up close and in the
+// middle of the cone, and ebbs away otherwise. Players who were just caught
+// get the benefit of the doubt while they respawn, and hidden or cloaked
+// players can't be seen at all.
+const watchPlayers = (
+  maze: boolean[][],
+  exec: Executive,
+  players: PlayerState[],
+  dt: number
+): { exec: Executive; seesPlayer: boolean } => {
+  const sightings = players.map((player) =>
+    player.invincibilityTimer > 0 ||
+    isHidden(player) ||
+    hasEffect(player, "invisibility")
+      ? 0
+      : sightStrength(maze, exec, player.position)
+  );
+  const sight = Math.max(...sightings);
+  const seesPlayer = sight > 0;
+  const suspicion = seesPlayer
+    ? Math.min(1, exec.suspicion + DETECTION_FILL_RATE * sight * dt)
+    : Math.max(0, exec.suspicion - DETECTION_DRAIN_RATE * dt);
+  const suspect = seesPlayer ? sightings.indexOf(sight) : exec.suspect;
+  return { exec: { ...exec, suspicion, suspect }, seesPlayer };
+};
+
+// One tick of the executive state machine:
+//
+//   patrol --glimpse--> suspicious --half sure--> chase --lost--> search
+//     ^                     |                       ^               |
+//     |               doubt faded                   +----spotted----+
+//     |                     v                                       |
+//     +--------------- (patrol) <--------- return <----timed out----+
+//
+// Suspicion fills while a player is in view and drains otherwise; a full
+// meter is an HR violation for the player they have their eye on (see
+// checkCatches). With two players in view, the one seen more clearly is the
+// suspect. Returning executives that spot a player become suspicious again.
+// Scared executives drop everything and flee. Patrols head for `gathering`
+// when it's set (see standupPatrol).
+const moveExecutive = (
+  maze: boolean[][],
+  exec: Executive,
+  players: PlayerState[],
+  level: number,
+  dt: number,
+  random: Random,
+  gathering?: Position
+): Executive => {
+  if (exec.scaredTimer > 0) {
+    // Move away from the nearest player when scared
+    const player = nearestPlayer(exec, players);
+    const dx = exec.position.x - player.position.x;
+    const dy = exec.position.y - player.position.y;
+    const flee = EXECUTIVE_FLEE_SPEED * dt;
+    const targetX = exec.position.x + Math.sign(dx) * flee;
+    const targetY = exec.position.y + Math.sign(dy) * flee;
+
+    const newPos = canSpriteMoveTo(maze, targetX, targetY)
+      ? { x: targetX, y: targetY }
+      : exec.position;
+
+    return {
+      ...exec,
+      position: newPos,
+      scaredTimer: Math.max(0, exec.scaredTimer - dt),
+      isScared: exec.scaredTimer - dt > 0,
+      // A fright wipes the executive's mind: back to patrolling from
+      // wherever they end up, with a fresh direction once calm again.
+      state: "patrol",
+      stateTimer: 0,
+      suspicion: 0,
+      pointOfInterest: undefined,
+      patrolPoint: undefined,
+      path: undefined,
+      stepsRemaining: 0,
+    };
+  }
+
+  const watched = watchPlayers(maze, exec, players, dt);
+  exec = watched.exec;
+  const { seesPlayer } = watched;
+  const { suspicion } = exec;
+  const player = players[exec.suspect ?? 0];
+  const pointOfInterest = seesPlayer
+    ? { ...player.position }
+    : exec.pointOfInterest;
+
+  switch (exec.state) {
+    case "suspicious": {
+      // Stand still and stare at the glimpse (or noise) until sure enough
+      // to give chase, or until the doubt fades
+      const direction = pointOfInterest
+        ? unitToward(exec.position, pointOfInterest)
+        : exec.direction;
+      if (suspicion >= DETECTION_CHASE_THRESHOLD) {
+        return {
+          ...exec,
+          direction,
+          pointOfInterest,
+          state: "chase",
+          stateTimer: 0,
+        };
+      }
+      const stateTimer = Math.max(0, exec.stateTimer - dt);
+      if (suspicion > 0 || stateTimer > 0) {
+        return { ...exec, direction, pointOfInterest, stateTimer };
+      }
+      return returnToPatrol(maze, { ...exec, direction });
+    }
+
+    case "chase": {
+      if (!seesPlayer) {
+        // Lost them: head for where they were last seen
+        return {
+          ...exec,
+          state: "search",
+          stateTimer: EXECUTIVE_SEARCH_DURATION,
+          path: pointOfInterest
+            ? (findPath(maze, exec.position, pointOfInterest) ?? [])
+            : [],
+        };
+      }
+      let chaser = {
+        ...exec,
+        pointOfInterest,
+        stateTimer: exec.stateTimer - dt,
+      };
+      if (chaser.stateTimer <= 0 || !chaser.path?.length) {
+        chaser = {
+          ...chaser,
+          stateTimer: EXECUTIVE_REPLAN_INTERVAL,
+          path: findPath(maze, exec.position, player.position) ?? [],
+        };
+      }
+      return followPath(
+        maze,
+        chaser,
+        alertSpeed(EXECUTIVE_CHASE_SPEED, exec.profile, level),
+        dt
+      );
+    }
+
+    case "search": {
+      if (seesPlayer) {
+        return { ...exec, pointOfInterest, state: "chase", stateTimer: 0 };
+      }
+      if (exec.path?.length) {
+        return followPath(
+          maze,
+          exec,
+          alertSpeed(EXECUTIVE_SEARCH_SPEED, exec.profile, level),
+          dt
+        );
+      }
+      // At the last sighting: look around, turning a quarter every so often
+      const stateTimer = exec.stateTimer - dt;
+      if (stateTimer <= 0) return returnToPatrol(maze, exec);
+      const direction = lookAround(
+        exec.direction,
+        EXECUTIVE_SEARCH_DURATION,
+        exec.stateTimer,
+        stateTimer
+      );
+      return { ...exec, direction, stateTimer };
+    }
+
+    case "return": {
+      if (seesPlayer) {
+        return {
+          ...exec,
+          pointOfInterest,
+          state: "suspicious",
+          stateTimer: EXECUTIVE_SUSPICIOUS_DURATION,
+          path: undefined,
+        };
+      }
+      if (exec.path?.length) {
+        return followPath(
+          maze,
+          exec,
+          alertSpeed(EXECUTIVE_RETURN_SPEED, exec.profile, level),
+          dt
+        );
+      }
+      return {
+        ...exec,
+        state: "patrol",
+        patrolPoint: undefined,
+        path: undefined,
+        stepsRemaining: 0,
+      };
+    }
+
+    default: {
+      if (seesPlayer) {
+        return {
+          ...exec,
+          pointOfInterest,
+          state: "suspicious",
+          stateTimer: EXECUTIVE_SUSPICIOUS_DURATION,
+          patrolPoint: { ...exec.position },
+          path: undefined,
+        };
+      }
+      return patrol(maze, exec, players, level, dt, random, gathering);
+    }
+  }
+};
+
+// The 9-to-5 mode: executives move at the pace and with the sight the time
+// of day gives them (see onTheClock), and gather for the morning stand-up.
+// Their own profile is what they go home with.
+const moveOnTheClock = (
+  world: World,
+  exec: Executive,
+  dt: number,
+  random: Random
+): Executive => {
+  const { workday } = world;
+  const moved = moveExecutive(
+    world.maze,
+    onTheClock(exec, workday),
+    world.players,
+    world.level,
+    dt,
+    random,
+    workday && currentPhase(workday).gather ? workday.standupSpot : undefined
+  );
+  return { ...moved, profile: exec.profile };
+};
+
+// Versus mode: player two walks their executive around at its chase pace,
+// sliding along walls, and the vision cone turns to face where they're
+// heading. Suspicion works as it does for everyone else, and the meter
+// stands in for the AI's state: past the chase threshold they can also
+// catch the vandal by walking into them.
+const steerExecutive = (
+  maze: boolean[][],
+  exec: Executive,
+  players: PlayerState[],
+  input: TickInput,
+  level: number,
+  dt: number
+): Executive => {
+  const watched = watchPlayers(maze, exec, players, dt);
+  const { suspicion } = watched.exec;
+  let state: Executive["state"] = "patrol";
+  if (suspicion >= DETECTION_CHASE_THRESHOLD) state = "chase";
+  else if (suspicion > 0) state = "suspicious";
+  exec = { ...watched.exec, state, path: undefined };
+
+  const speed = alertSpeed(EXECUTIVE_CHASE_SPEED, exec.profile, level) * dt;
+  const dx = ((input.right ? 1 : 0) - (input.left ? 1 : 0)) * speed;
+  const dy = ((input.down ? 1 : 0) - (input.up ? 1 : 0)) * speed;
+  if (dx === 0 && dy === 0) return exec;
+
+  let { x, y } = exec.position;
+  if (dx !== 0 && canSpriteMoveTo(maze, x + dx, y)) x += dx;
+  if (dy !== 0 && canSpriteMoveTo(maze, x, y + dy)) y += dy;
+  return {
+    ...exec,
+    position: { x, y },
+    direction: unitToward({ x: 0, y: 0 }, { x: dx, y: dy }),
+  };
+};
+
+// Tick coin expiry and animations, and damaged-item timers.
+export const tickCollectibles = (
+  collectibles: Collectible[],
+  dt: number
+): Collectible[] =>
+  collectibles.map((c) => {
+    if (c.type === "coin") {
+      if (!c.collected) {
+        let updated = { ...c };
+        if (c.expireTimer !== undefined) {
+          const newTimer = c.expireTimer - dt;
+          if (newTimer <= 0) {
+            // Coin expired, mark as collected to remove it
+            return { ...updated, collected: true };
+          }
+          updated = { ...updated, expireTimer: newTimer };
+        }
+
+        // Update bounce animation progress
+        if (c.animationProgress !== undefined && c.animationProgress < 1) {
+          const newProgress = Math.min(
+            1,
+            c.animationProgress + dt / COIN_BOUNCE_DURATION
+          );
+          updated = { ...updated, animationProgress: newProgress };
+          // Remove bounce properties once complete
+          if (newProgress >= 1) {
+            const { animationStartPos, animationProgress, ...rest } = updated;
+            updated = rest;
+          }
+        }
+        return updated;
+      }
+
+      // Collected coins play a short pop-up animation
+      if (
+        c.collectAnimationProgress !== undefined &&
+        c.collectAnimationProgress < 1
+      ) {
+        const newProgress = Math.min(
+          1,
+          c.collectAnimationProgress + dt / COIN_POP_DURATION
+        );
+        if (newProgress >= 1) {
+          // Remove pop animation properties; coin will no longer be drawn
+          const { collectAnimationProgress, ...rest } = c;
+          return rest;
+        }
+        return { ...c, collectAnimationProgress: newProgress };
+      }
+      return c;
+    }
+
+    if (c.damaged && !c.collected && c.damageTimer !== undefined) {
+      const newTimer = c.damageTimer - dt;
+      if (newTimer <= 0) {
+        if (COLLECTIBLE_TYPES[c.type].afterDamage === "revert") {
+          // e.g. coworkers clean up and go back to normal
+          const { damaged, damageTimer, ...rest } = c;
+          return rest;
+        }
+        return { ...c, collected: true };
+      }
+      return { ...c, damageTimer: newTimer };
+    }
+    return c;
+  });
+
+// Every few seconds a random calm executive leaves a new item next to them,
+// picked by each type's spawn weight, up to MAX_DROPPED_ITEMS on the floor
+// at once.
+const tickExecutiveDrops = (
+  world: World,
+  dt: number,
+  random: Random
+): World => {
+  if (world.executiveDropTimer > 0) {
+    return { ...world, executiveDropTimer: world.executiveDropTimer - dt };
+  }
+
+  const next = { ...world, executiveDropTimer: EXECUTIVE_DROP_INTERVAL };
+  const activeExecutives = world.executives.filter((exec) => !exec.isScared);
+  const droppableTypes = ITEM_TYPES.filter(
+    (type) => COLLECTIBLE_TYPES[type].spawnWeight > 0
+  );
+  const droppedItemCount = world.collectibles.filter(
+    (c) =>
+      !c.collected &&
+      c.type !== "coin" &&
+      COLLECTIBLE_TYPES[c.type].spawnWeight > 0
+  ).length;
+
+  if (
+    activeExecutives.length === 0 ||
+    droppableTypes.length === 0 ||
+    droppedItemCount >= MAX_DROPPED_ITEMS
+  ) {
+    return next;
+  }
+
+  const randomExecutive =
+    activeExecutives[Math.floor(random() * activeExecutives.length)];
+
+  // Try positions in a 3x3 area around the executive that are open, not
+  // occupied, and whose sprite doesn't overlap another static collectible.
+  const candidates: Position[] = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const x = Math.floor(randomExecutive.position.x) + dx;
+      const y = Math.floor(randomExecutive.position.y) + dy;
+      if (
+        x < 0 ||
+        x >= MAZE_WIDTH ||
+        y < 0 ||
+        y >= MAZE_HEIGHT ||
+        world.maze[y][x]
+      ) {
+        continue;
+      }
+      const blocked = world.collectibles.some(
+        (c) =>
+          (blocksPlacement(c) && spritesOverlap({ x, y }, c.position)) ||
+          (!c.collected && c.position.x === x && c.position.y === y)
+      );
+      if (!blocked) candidates.push({ x, y });
+    }
+  }
+  if (candidates.length === 0) return next;
+
+  const dropPosition = candidates[Math.floor(random() * candidates.length)];
+  const totalWeight = droppableTypes.reduce(
+    (total, type) => total + COLLECTIBLE_TYPES[type].spawnWeight,
+    0
+  );
+  let roll = random() * totalWeight;
+  const randomItemType =
+    droppableTypes.find((type) => {
+      roll -= COLLECTIBLE_TYPES[type].spawnWeight;
+      return roll < 0;
+    }) ?? droppableTypes[droppableTypes.length - 1];
+
+  return {
+    ...next,
+    collectibles: [
+      ...world.collectibles,
+      { position: dropPosition, type: randomItemType, collected: false },
+    ],
+  };
+};
+
+// While a player's coin magnet is on, landed coins within MAGNET_RADIUS of
+// them fly their way.
+const attractCoins = (world: World, dt: number): World => {
+  const magnets = world.players.filter((player) => hasEffect(player, "magnet"));
+  if (magnets.length === 0) return world;
+  return {
+    ...world,
+    collectibles: world.collectibles.map((c) => {
+      if (c.type !== "coin" || c.collected || (c.animationProgress ?? 1) < 1) {
+        return c;
+      }
+      const magnet = magnets.find(
+        ({ position }) =>
+          Math.hypot(c.position.x - position.x, c.position.y - position.y) <=
+          MAGNET_RADIUS
+      );
+      if (!magnet) return c;
+      const { position } = magnet;
+      const direction = unitToward(c.position, position);
+      const pull = Math.min(
+        MAGNET_SPEED * dt,
+        Math.hypot(c.position.x - position.x, c.position.y - position.y)
+      );
+      return {
+        ...c,
+        position: {
+          x: c.position.x + direction.x * pull,
+          y: c.position.y + direction.y * pull,
+        },
+      };
+    }),
+  };
+};
+
+// Coin sprite: ~1.6x1.6 blocks, centered on its cell
+const COIN_HALF_SIZE = 0.8;
+
+// Whether a coin touches a player's pickup box: 2x2 blocks around their
+// position
+const touchesCoin = (player: PlayerState, coin: Collectible) => {
+  const { x: px, y: py } = player.position;
+  const coinCenterX = coin.position.x + 0.5;
+  const coinCenterY = coin.position.y + 0.5;
+  return (
+    px - 0.5 < coinCenterX + COIN_HALF_SIZE &&
+    px + 1.5 > coinCenterX - COIN_HALF_SIZE &&
+    py - 0.5 < coinCenterY + COIN_HALF_SIZE &&
+    py + 1.5 > coinCenterY - COIN_HALF_SIZE
+  );
+};
+
+// Collect coins when they touch a player's bounding box, but only after
+// they have finished their bounce animation (landed). Hidden players can't
+// reach them. Each coin goes to the first player touching it.
+const collectCoins = (world: World): World => {
+  const events: GameEvent[] = [];
+  const collectibles = world.collectibles.map((c) => {
+    if (c.type !== "coin" || c.collected) return c;
+    if (c.animationProgress !== undefined && c.animationProgress < 1) {
+      return c;
+    }
+
+    const collector = world.players.findIndex(
+      (player) => !isHidden(player) && touchesCoin(player, c)
+    );
+    if (collector === -1) return c;
+
+    events.push({ type: "score", player: collector, points: c.value ?? 1 });
+    events.push({ type: "sound", sound: "coin", position: c.position });
+    return {
+      ...c,
+      collected: true,
+      collectAnimationProgress: 0, // start pop-up animation
+      expireTimer: undefined,
+    };
+  });
+
+  if (events.length === 0) return world;
+  return { ...world, collectibles, events: [...world.events, ...events] };
+};
+
+// How clearly an executive sees the target, from 0 (not at all) to 1 (up
+// close, dead ahead). The target must be within the executive's vision
+// distance (but outside the 1-cell blind spot) and inside their cone, with
+// no wall in the way.
+export const sightStrength = (
+  maze: boolean[][],
+  exec: Executive,
+  target: Position
+): number => {
+  if (exec.isScared) return 0;
+
+  const dx = target.x - exec.position.x;
+  const dy = target.y - exec.position.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  // Blind spot: can't see if too close
+  const { visionDistance, visionAngle } = exec.profile;
+  if (distance < 1 || distance > visionDistance) return 0;
+
+  // Calculate angle between executive direction and target
+  const angleToTarget = Math.atan2(dy, dx);
+  const execAngle = Math.atan2(exec.direction.y, exec.direction.x);
+  let angleDiff = angleToTarget - execAngle;
+
+  // Normalize angle difference to -PI to PI
+  while (angleDiff > Math.PI) angleDiff -= 2 * Math.PI;
+  while (angleDiff < -Math.PI) angleDiff += 2 * Math.PI;
+
+  const halfAngle = (visionAngle * Math.PI) / 180;
+  if (Math.abs(angleDiff) > halfAngle) return 0;
+
+  // Walls: the target has to be inside the same wall-clipped cone that
+  // gets drawn on screen
+  if (!polygonContains(visionPolygon(maze, exec), eyePosition(target))) {
+    return 0;
+  }
+
+  // A quarter strength at the far edge of the range, half at the edge of
+  // the cone
+  const closeness = 1 - (distance - 1) / Math.max(1, visionDistance - 1);
+  const centrality = 1 - Math.abs(angleDiff) / halfAngle;
+  return (0.25 + 0.75 * closeness) * (0.5 + 0.5 * centrality);
+};
+
+// Smart respawn: prefer the centre spawn, then a random open cell at least
+// 6 cells from every executive, then the corner farthest from them.
+export const findSafeSpawn = (
+  maze: boolean[][],
+  executives: Executive[],
+  random: Random,
+  spawn: Position
+): Position => {
+  const isSafePosition = (x: number, y: number) => {
+    if (maze[y]?.[x]) return false;
+    return executives.every(
+      (e) => Math.sqrt((e.position.x - x) ** 2 + (e.position.y - y) ** 2) >= 6
+    );
+  };
+
+  if (isSafePosition(spawn.x, spawn.y)) {
+    return { ...spawn };
+  }
+
+  for (let i = 0; i < 50; i++) {
+    const x = 2 + Math.floor(random() * (MAZE_WIDTH - 4));
+    const y = 2 + Math.floor(random() * (MAZE_HEIGHT - 4));
+    if (isSafePosition(x, y)) {
+      return { x, y };
+    }
+  }
+
+  // Fallback: the walkable corner farthest from all executives
+  const walkableCorners = [
+    { x: 2, y: 2 },
+    { x: MAZE_WIDTH - 3, y: 2 },
+    { x: 2, y: MAZE_HEIGHT - 3 },
+    { x: MAZE_WIDTH - 3, y: MAZE_HEIGHT - 3 },
+  ].filter((corner) => !maze[corner.y]?.[corner.x]);
+
+  if (walkableCorners.length > 0) {
+    let farthest = walkableCorners[0];
+    let maxDist = 0;
+    for (const corner of walkableCorners) {
+      let totalDist = 0;
+      for (const e of executives) {
+        totalDist += Math.sqrt(
+          (e.position.x - corner.x) ** 2 + (e.position.y - corner.y) ** 2
+        );
+      }
+      if (totalDist > maxDist) {
+        maxDist = totalDist;
+        farthest = corner;
+      }
+    }
+    return farthest;
+  }
+
+  // Last resort: find any walkable position
+  for (let y = 1; y < MAZE_HEIGHT - 1; y++) {
+    for (let x = 1; x < MAZE_WIDTH - 1; x++) {
+      if (!maze[y][x]) {
+        return { x, y };
+      }
+    }
+  }
+  return { ...spawn };
+};
+
+// A player loses a life (and respawns somewhere safe) when the suspicion of
+// an executive with their eye on them fills up, or when a chasing executive
+// physically reaches them. Nobody finds a hidden player, and nobody catches
+// anyone during an all-hands meeting.
+const checkCatches = (world: World, random: Random): World => {
+  if (world.players.some((player) => hasEffect(player, "freeze"))) {
+    return world;
+  }
+  return world.players.reduce(
+    (next, _, index) => catchPlayer(next, index, random),
+    world
+  );
+};
+
+const catchPlayer = (world: World, index: number, random: Random): World => {
+  const player = world.players[index];
+  if (
+    player.invincibilityTimer > 0 ||
+    player.catchCooldown > 0 ||
+    isHidden(player)
+  ) {
+    return world;
+  }
+
+  const catcher = world.executives.find(
+    (exec) =>
+      (exec.suspicion >= 1 && (exec.suspect ?? 0) === index) ||
+      (exec.state === "chase" &&
+        Math.hypot(
+          exec.position.x - player.position.x,
+          exec.position.y - player.position.y
+        ) <= EXECUTIVE_CATCH_DISTANCE)
+  );
+  if (!catcher) return world;
+
+  return {
+    ...withPlayer(world, index, {
+      ...player,
+      position: findSafeSpawn(
+        world.maze,
+        world.executives,
+        random,
+        player.spawn
+      ),
+      catchCooldown: CATCH_COOLDOWN,
+      invincibilityTimer: INVINCIBILITY_DURATION,
+    }),
+    // The catcher is satisfied and heads back to patrol
+    executives: world.executives.map((exec) =>
+      exec === catcher
+        ? returnToPatrol(world.maze, { ...exec, suspicion: 0 })
+        : exec
+    ),
+    events: [
+      ...world.events,
+      { type: "caught", player: index, executive: catcher.name },
+      { type: "sound", sound: "caught" },
+    ],
+  };
+};
+
+// A combo breaks when its window runs out before the next hit, or when its
+// player is spotted: an executive gives chase to them or catches them.
+const tickCombo = (world: World, dt: number): World =>
+  world.players.reduce((next, player, index) => {
+    if (player.combo === 0) return next;
+
+    const comboTimer = Math.max(0, player.comboTimer - dt);
+    const spotted =
+      next.executives.some(
+        (exec) => exec.state === "chase" && (exec.suspect ?? 0) === index
+      ) ||
+      next.events.some(
+        (event) => event.type === "caught" && event.player === index
+      );
+    if (comboTimer > 0 && !spotted) {
+      return withPlayer(next, index, { ...player, comboTimer });
+    }
+    return {
+      ...withPlayer(next, index, { ...player, combo: 0, comboTimer: 0 }),
+      events: [
+        ...next.events,
+        { type: "combo", player: index, chain: 0, multiplier: 1 },
+      ],
+    };
+  }, world);
+
+// Whole seconds shown on a timed objective's clock
+const clockSeconds = (progress: ObjectiveProgress) =>
+  progress.timeLeft === undefined ? undefined : Math.ceil(progress.timeLeft);
+
+// Count this tick's events towards the floor's objectives. The HUD hears
+// about every change, and the floor is complete the tick the last one is.
+const tickObjectives = (world: World, dt: number): World => {
+  const floorTime = world.floorTime + dt;
+  const objectives = world.objectives.map((progress) =>
+    trackObjective(progress, world.events, dt)
+  );
+  const changed = objectives.some(
+    (progress, i) =>
+      progress.count !== world.objectives[i].count ||
+      progress.complete !== world.objectives[i].complete ||
+      clockSeconds(progress) !== clockSeconds(world.objectives[i])
+  );
+  if (!changed) return { ...world, objectives, floorTime };
+
+  const events: GameEvent[] = [{ type: "objectives", objectives }];
+  const wasComplete = world.objectives.every((progress) => progress.complete);
+  if (!wasComplete && objectives.every((progress) => progress.complete)) {
+    events.push({ type: "levelComplete", time: floorTime });
+  }
+  return {
+    ...world,
+    objectives,
+    floorTime,
+    events: [...world.events, ...events],
+  };
+};
+
+// Run a versus round's clock down, telling the driver about every whole
+// second so the HUD can count down and the round can end at 0
+const tickRound = (world: World, dt: number): World => {
+  if (world.roundTimeLeft === undefined || world.roundTimeLeft <= 0) {
+    return world;
+  }
+  const roundTimeLeft = Math.max(0, world.roundTimeLeft - dt);
+  const timeLeft = Math.ceil(roundTimeLeft);
+  if (timeLeft === Math.ceil(world.roundTimeLeft)) {
+    return { ...world, roundTimeLeft };
+  }
+  return {
+    ...world,
+    roundTimeLeft,
+    events: [...world.events, { type: "roundClock", timeLeft }],
+  };
+};
+
+// Run the 9-to-5 mode's workday on, telling the driver about every office
+// minute so the HUD clock can keep time and the run can end at 5 PM
+const tickWorkday = (world: World, dt: number): World => {
+  if (!world.workday || world.workday.time >= WORKDAY_LENGTH) return world;
+  const time = Math.min(WORKDAY_LENGTH, world.workday.time + dt);
+  const workday = { ...world.workday, time };
+  const minutes = officeMinutes(time);
+  if (minutes === officeMinutes(world.workday.time)) {
+    return { ...world, workday };
+  }
+  return {
+    ...world,
+    workday,
+    events: [...world.events, { type: "officeClock", minutes }],
+  };
+};
+
+// Advance the world by one FIXED_TIMESTEP tick. Pure: the input world is never
+// mutated, all randomness comes from the world's own PRNG state, and all side
+// effects are reported through `events`. The same world and inputs (one per
+// player, then player two's steering in versus) always produce the same next
+// world.
+export const step = (world: World, inputs: TickInput[]): World => {
+  const rng = createRng(world.rngState);
+  const random = rng.next;
+  const dt = FIXED_TIMESTEP;
+  let next: World = { ...world, events: [] };
+  const inputFor = (index: number) => inputs[index] ?? IDLE_INPUT;
+
+  // Hidden players keep their hands to themselves
+  for (let index = 0; index < next.players.length; index++) {
+    const input = inputFor(index);
+    if (isHidden(next.players[index])) continue;
+    if (input.action) next = applyAction(next, index, random);
+    if (input.throwSlot > 0) next = throwItem(next, index, input.throwSlot);
+  }
+
+  const effectEvents: GameEvent[] = [];
+  next = {
+    ...next,
+    players: next.players.map((player, index) => {
+      const effects = tickEffects(player, index, dt);
+      effectEvents.push(...effects.events);
+      return updateHiding(
+        tickPlayerTimers(
+          movePlayer(next.maze, effects.player, inputFor(index), dt),
+          dt
+        ),
+        next.hidingSpots,
+        dt
+      );
+    }),
+  };
+  next = { ...next, events: [...next.events, ...effectEvents] };
+
+  // Executives sit tight through an all-hands meeting
+  next = {
+    ...next,
+    executives: next.players.some((player) => hasEffect(player, "freeze"))
+      ? next.executives
+      : next.executives.map((exec) =>
+          exec.piloted && exec.scaredTimer <= 0
+            ? steerExecutive(
+                next.maze,
+                exec,
+                next.players,
+                inputFor(next.players.length),
+                next.level,
+                dt
+              )
+            : moveOnTheClock(next, exec, dt, random)
+        ),
+    collectibles: tickCollectibles(next.collectibles, dt),
+  };
+
+  next = tickExecutiveDrops(next, dt, random);
+  next = tickProjectiles(next, dt, random);
+  next = attractCoins(next, dt);
+  next = collectCoins(next);
+  next = checkCatches(next, random);
+  next = tickCombo(next, dt);
+  next = tickObjectives(next, dt);
+  next = tickRound(next, dt);
+  next = tickWorkday(next, dt);
+
+  return { ...next, rngState: rng.state() };
+};
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import { HOTBAR_SIZE, KICKME_NOISE } from "./constants";
+import { createBorderedGrid } from "./maze";
+import { IDLE_INPUT, step } from "./simulation";
+import { drawThrowable, stowThrowable, THROWABLES } from "./throwables";
+import { Collectible, Executive, GameEvent, PlayerState, World } from "./types";
+import { createWorld } from "./world";
+
+const [player] = createWorld(1).players;
+
+describe("stowThrowable", () => {
+  it("puts a new item in the next free slot with its ammo", () => {
+    const stowed = stowThrowable(player, 0, "cake");
+    expect(stowed.player.inventory).toEqual([
+      { item: "cake", count: THROWABLES.cake.ammo },
+    ]);
+    expect(stowed.events).toEqual([
+      { type: "inventory", player: 0, inventory: stowed.player.inventory },
+    ]);
+  });
+
+  it("stacks a second pick-up on the slot already holding it", () => {
+    const once = stowThrowable(player, 0, "rubberBand").player;
+    const twice = stowThrowable(once, 0, "rubberBand").player;
+    expect(twice.inventory).toEqual([
+      { item: "rubberBand", count: 2 * THROWABLES.rubberBand.ammo },
+    ]);
+  });
+
+  it("refuses a new item once every slot is taken", () => {
+    const full = {
+      ...player,
+      inventory: Array.from({ length: HOTBAR_SIZE }, () => ({
+        item: "paintCan" as const,
+        count: 1,
+      })),
+    };
+    expect(stowThrowable(full, 0, "cake")).toBeNull();
+    expect(stowThrowable(full, 0, "paintCan")).not.toBeNull();
+  });
+});
+
+describe("drawThrowable", () => {
+  const holding = {
+    ...player,
+    inventory: [
+      { item: "cake" as const, count: 1 },
+      { item: "rubberBand" as const, count: 3 },
+    ],
+  };
+
+  it("takes one throw out of a slot", () => {
+    const drawn = drawThrowable(holding, 0, 2);
+    expect(drawn.item).toBe("rubberBand");
+    expect(drawn.player.inventory[1]).toEqual({ item: "rubberBand", count: 2 });
+  });
+
+  it("empties a slot on its last throw, moving the rest up", () => {
+    const drawn = drawThrowable(holding, 0, 1);
+    expect(drawn.item).toBe("cake");
+    expect(drawn.player.inventory).toEqual([{ item: "rubberBand", count: 3 }]);
+  });
+
+  it("has nothing to throw from an empty slot", () => {
+    expect(drawThrowable(holding, 0, 3)).toBeNull();
+  });
+});
+
+describe("throwing", () => {
+  // An open office with nobody else in it and the player holding `inventory`
+  const office = (inventory: PlayerState["inventory"]): World => {
+    const world = createWorld(1);
+    return {
+      ...world,
+      maze: createBorderedGrid(false),
+      players: [{ ...world.players[0], inventory }],
+      collectibles: [],
+      executives: [],
+      hidingSpots: [],
+    };
+  };
+
+  const play = (world: World, ticks: number, throwSlot = 1) => {
+    const events: GameEvent[] = [];
+    for (let i = 0; i < ticks; i++) {
+      world = step(world, [
+        { ...IDLE_INPUT, throwSlot: i === 0 ? throwSlot : 0 },
+      ]);
+      events.push(...world.events);
+    }
+    return { world, events };
+  };
+
+  it("picks a throwable up into the hotbar with the action key", () => {
+    const world = office([]);
+    const { x, y } = world.players[0].position;
+    const next = step(
+      {
+        ...world,
+        collectibles: [
+          { position: { x: x + 1, y }, type: "cake", collected: false },
+        ],
+      },
+      [{ ...IDLE_INPUT, action: true }]
+    );
+    expect(next.players[0].inventory).toEqual([{ item: "cake", count: 1 }]);
+    expect(next.collectibles[0].collected).toBe(true);
+  });
+
+  it("leaves a pick-up behind with a full hotbar but still kicks", () => {
+    const full = Array.from({ length: HOTBAR_SIZE }, () => ({
+      item: "paintCan" as const,
+      count: 1,
+    }));
+    const world = office(full);
+    const { x, y } = world.players[0].position;
+    const exec: Executive = {
+      ...createWorld(1).executives[0],
+      position: { x: x - 1, y },
+      direction: { x: -1, y: 0 },
+    };
+    const next = step(
+      {
+        ...world,
+        collectibles: [
+          { position: { x: x + 1, y }, type: "cake", collected: false },
+        ],
+        executives: [exec],
+      },
+      [{ ...IDLE_INPUT, action: true }]
+    );
+    expect(next.players[0].inventory).toEqual(full);
+    expect(next.collectibles[0].collected).toBe(false);
+    expect(next.events).toContainEqual({
+      type: "scared",
+      executive: exec.name,
+    });
+    expect(next.events).toContainEqual({
+      type: "noise",
+      position: exec.position,
+      loudness: KICKME_NOISE,
+    });
+  });
+
+  it("vandalizes a target it flies into", () => {
+    const world = office([{ item: "cake", count: 1 }]);
+    const { x, y } = world.players[0].position;
+    const coworker: Collectible = {
+      position: { x: x + 5, y },
+      type: "coworker",
+      collected: false,
+    };
+    const { world: after, events } = play(
+      { ...world, collectibles: [coworker] },
+      60
+    );
+    expect(events).toContainEqual({ type: "vandalized", item: "coworker" });
+    expect(after.collectibles[0].damaged).toBe(true);
+    expect(after.players[0].inventory).toEqual([]);
+    expect(after.projectiles).toEqual([]);
+  });
+
+  it("flies past items it isn't meant for", () => {
+    const world = office([{ item: "cake", count: 1 }]);
+    const { x, y } = world.players[0].position;
+    const { events } = play(
+      {
+        ...world,
+        collectibles: [
+          { position: { x: x + 3, y }, type: "computer", collected: false },
+        ],
+      },
+      60
+    );
+    expect(events.some((e) => e.type === "vandalized")).toBe(false);
+  });
+
+  it("stops at a wall", () => {
+    const world = office([{ item: "rubberBand", count: 1 }]);
+    const { x, y } = world.players[0].position;
+    world.maze[y][x + 3] = true;
+    world.maze[y + 1][x + 3] = true;
+    const { world: inFlight } = play(world, 2);
+    expect(inFlight.projectiles).toHaveLength(1);
+    const { world: landed } = play(world, 20);
+    expect(landed.projectiles).toEqual([]);
+  });
+
+  it("scares an executive with rubber bands", () => {
+    const world = office([{ item: "rubberBand", count: 1 }]);
+    const { x, y } = world.players[0].position;
+    const exec: Executive = {
+      ...createWorld(1).executives[0],
+      position: { x: x + 6, y },
+      direction: { x: 1, y: 0 },
+    };
+    const { events } = play({ ...world, executives: [exec] }, 30);
+    expect(events).toContainEqual({ type: "scared", executive: exec.name });
+  });
+});
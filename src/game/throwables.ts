@@ -0,0 +1,106 @@
+import type { ItemType } from "./collectibles";
+import { HOTBAR_SIZE } from "./constants";
+import { GameEvent, InventorySlot, PlayerState } from "./types";
+
+export interface ThrowableDefinition {
+  // Shown on the HUD hotbar
+  label: string;
+  // Projectile and hotbar colour
+  color: string;
+  // Throws you get from picking one up
+  ammo: number;
+  // Cells per second in flight
+  speed: number;
+  // Cells it flies before dropping harmlessly
+  range: number;
+  // Items it vandalizes on a hit, from afar
+  targets: ItemType[];
+  // Whether it sticks a kick-me sign on an executive it hits
+  hitsExecutives: boolean;
+}
+
+// Spelled out rather than taken from the registry's keys: the registry names
+// item types, and item types name throwables in turn
+export type ThrowableType = "cake" | "paintCan" | "rubberBand";
+
+// Everything the player can carry around and throw with the number keys.
+// Thrown items fly in a straight line until they hit a wall, one of their
+// targets or run out of range.
+export const THROWABLES: Record<ThrowableType, ThrowableDefinition> = {
+  // A whole cake, for the coworker across the room
+  cake: {
+    label: "CAKE",
+    color: "#FFB6C1",
+    ammo: 1,
+    speed: 10,
+    range: 8,
+    targets: ["coworker"],
+    hitsExecutives: false,
+  },
+  // Splashes a whiteboard from a safe distance
+  paintCan: {
+    label: "PAINT CAN",
+    color: "#7CFC00",
+    ammo: 2,
+    speed: 8,
+    range: 6,
+    targets: ["wall"],
+    hitsExecutives: false,
+  },
+  // Fast and plentiful; an executive in the back of the head is as good as
+  // a kick-me sign
+  rubberBand: {
+    label: "RUBBER BANDS",
+    color: "#FFA500",
+    ammo: 5,
+    speed: 16,
+    range: 12,
+    targets: [],
+    hitsExecutives: true,
+  },
+};
+
+// Put a pick-up's ammo in a player's hotbar: on top of a slot already
+// holding the same item, otherwise in a new slot. Returns null when every
+// slot is taken by something else. `index` is the player's place in
+// world.players, for the events.
+export const stowThrowable = (
+  player: PlayerState,
+  index: number,
+  item: ThrowableType
+): { player: PlayerState; events: GameEvent[] } | null => {
+  const { ammo } = THROWABLES[item];
+  let inventory: InventorySlot[];
+  if (player.inventory.some((slot) => slot.item === item)) {
+    inventory = player.inventory.map((slot) =>
+      slot.item === item ? { ...slot, count: slot.count + ammo } : slot
+    );
+  } else if (player.inventory.length < HOTBAR_SIZE) {
+    inventory = [...player.inventory, { item, count: ammo }];
+  } else {
+    return null;
+  }
+  return {
+    player: { ...player, inventory },
+    events: [{ type: "inventory", player: index, inventory }],
+  };
+};
+
+// Take one throw out of a hotbar slot (1-based), emptying the slot when it
+// runs out. Returns null for an empty slot.
+export const drawThrowable = (
+  player: PlayerState,
+  index: number,
+  slot: number
+): { player: PlayerState; item: ThrowableType; events: GameEvent[] } | null => {
+  const held = player.inventory[slot - 1];
+  if (!held) return null;
+  const inventory = player.inventory
+    .map((s) => (s === held ? { ...s, count: s.count - 1 } : s))
+    .filter((s) => s.count > 0);
+  return {
+    player: { ...player, inventory },
+    item: held.item,
+    events: [{ type: "inventory", player: index, inventory }],
+  };
+};
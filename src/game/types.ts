@@ -0,0 +1,274 @@
+import type { ItemType } from "./collectibles";
+import type { HidingSpotType } from "./hidingSpots";
+import type { Objective } from "./objectives";
+import type { PowerUpType } from "./powerups";
+import type { ThrowableType } from "./throwables";
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+// How an executive gets around while nobody is misbehaving:
+//   wander        random walk, committing to a direction for a while
+//   wallFollower  keeps a hand on the wall to their right
+//   camper        walks to a spot, lingers there looking around, moves on
+//   sweeper       walks corridors end to end
+//   ambusher      heads for where the player is going, not where they are
+export type PatrolStyle =
+  "wander" | "wallFollower" | "camper" | "sweeper" | "ambusher";
+
+// What an executive does on hearing vandalism nearby: nothing, turn to look,
+// or go and check it out
+export type NoiseReaction = "ignore" | "glance" | "investigate";
+
+// Everything that sets one executive's behaviour apart. Plain data, so level
+// files can define new executives.
+export interface ExecutiveProfile {
+  patrol: PatrolStyle;
+  // Cells they can see ahead
+  visionDistance: number;
+  // Half-width of the vision cone, in degrees
+  visionAngle: number;
+  // Multipliers on the stock patrol and chase/search speeds
+  patrolSpeed: number;
+  chaseSpeed: number;
+  // Speed curve: compound patrol speed-up and linear chase speed-up per
+  // seniority level
+  patrolSpeedup: number;
+  chaseSpeedup: number;
+  noiseReaction: NoiseReaction;
+  // How far noise carries to them, as a multiple of its loudness
+  hearing: number;
+}
+
+// What an executive is up to:
+//   patrol      wandering the office
+//   suspicious  caught a glimpse of the player and turned to look
+//   chase       pathfinding straight for the player
+//   search      lost sight; checking the last known position and looking around
+//   return      giving up and walking back to where they were patrolling
+export type ExecutiveState =
+  "patrol" | "suspicious" | "chase" | "search" | "return";
+
+export interface Executive {
+  position: Position;
+  direction: Position;
+  isScared: boolean;
+  scaredTimer: number;
+  color: string;
+  name: string;
+  profile: ExecutiveProfile;
+  state: ExecutiveState;
+  // How sure they are that they've seen the player misbehave, 0..1
+  suspicion: number;
+  // Seconds left in a timed state (suspicious, search, a camper lingering)
+  // or until the next re-plan (chase, ambusher)
+  stateTimer: number;
+  // Where the player was last seen or heard; what suspicious executives
+  // stare at and searching ones head for
+  pointOfInterest?: Position;
+  // Which player (their index in World.players) they last had in view; a
+  // full suspicion meter catches this one
+  suspect?: number;
+  // Where patrol was interrupted; "return" walks back here
+  patrolPoint?: Position;
+  // Versus mode: steered by player two instead of the AI (only a fright
+  // takes the wheel back for a moment)
+  piloted?: boolean;
+  // Grid cells still to walk through, first one next
+  path?: Position[];
+  // For normal movement: how many steps to keep walking in the current direction
+  stepsRemaining?: number;
+}
+
+// Coins are the built-in currency; everything else comes from the
+// COLLECTIBLE_TYPES registry.
+export type CollectibleType = ItemType | "coin";
+
+export interface Collectible {
+  position: Position;
+  type: CollectibleType;
+  collected: boolean;
+  damaged?: boolean; // For computers, walls, coworkers - shows modified state
+  value?: number;
+  expireTimer?: number; // For coins: seconds until they disappear
+  animationStartPos?: Position; // For coins: starting position for bounce animation
+  animationProgress?: number; // For coins: animation progress 0-1
+  damageTimer?: number; // For damaged items: seconds until they disappear
+  collectAnimationProgress?: number; // For coins: pop-up animation after collection
+}
+
+// A cubicle, plant or closet the player can hide in; see HIDING_SPOT_TYPES
+export interface HidingSpot {
+  position: Position;
+  type: HidingSpotType;
+}
+
+// One hotbar slot: a throwable and how many throws of it are left
+export interface InventorySlot {
+  item: ThrowableType;
+  count: number;
+}
+
+// A thrown item in flight. Unlike everything else on the grid, its position
+// is its centre rather than its cell.
+export interface Projectile {
+  item: ThrowableType;
+  // Index in World.players of whoever threw it
+  thrower: number;
+  position: Position;
+  // Unit vector it flies along
+  direction: Position;
+  // Cells left before it drops
+  range: number;
+}
+
+export interface PlayerState {
+  position: Position;
+  // Where they start and respawn after being caught
+  spawn: Position;
+  // Last non-zero movement vector, used by the renderer
+  direction: Position;
+  // Remaining seconds of each active power-up effect
+  effects: Partial<Record<PowerUpType, number>>;
+  // Remaining seconds of each timed effect
+  invincibilityTimer: number;
+  catchCooldown: number;
+  // Seconds of hiding left; the player is hidden while this is above 0
+  hideTimer: number;
+  // Seconds before the player can hide again
+  hideCooldown: number;
+  // Hits chained so far (0 = no combo) and seconds left to land the next
+  combo: number;
+  comboTimer: number;
+  // Carried throwables, in hotbar order (at most HOTBAR_SIZE slots)
+  inventory: InventorySlot[];
+}
+
+// How far the player is with one of the floor's objectives
+export interface ObjectiveProgress {
+  objective: Objective;
+  // Progress so far, out of `target`
+  count: number;
+  target: number;
+  // Executives already scared, for "scare" objectives
+  scared: string[];
+  // Seconds left on a timed objective's clock
+  timeLeft?: number;
+  complete: boolean;
+}
+
+// Item types double as the name of the sound their interaction plays
+export type SoundName = ItemType | "coin" | "kickme" | "caught";
+
+// Side effects produced by a simulation tick. The simulation never talks to
+// React, audio or the DOM directly; the driver drains these after each step.
+// Events about one player carry their index in World.players.
+export type GameEvent =
+  // Positional sounds carry the grid position they happened at
+  | { type: "sound"; sound: SoundName; position?: Position }
+  // Something loud happened; `loudness` is how many cells it carries
+  | { type: "noise"; position: Position; loudness: number }
+  | { type: "score"; player: number; points: number }
+  // A player's combo grew to `chain` hits, or broke (chain 0)
+  | { type: "combo"; player: number; chain: number; multiplier: number }
+  | { type: "caught"; player: number; executive: string }
+  // The player damaged an item or stuck a kick-me sign on an executive
+  | { type: "vandalized"; item: ItemType }
+  | { type: "scared"; executive: string }
+  // A power-up was picked up (instant ones have a duration of 0) or ran out
+  | { type: "powerUp"; player: number; powerUp: PowerUpType; duration: number }
+  | { type: "effectExpired"; player: number; powerUp: PowerUpType }
+  // A player's hotbar changed (an item was picked up or thrown)
+  | { type: "inventory"; player: number; inventory: InventorySlot[] }
+  // Objective progress changed (or a timed one ticked over a whole second)
+  | { type: "objectives"; objectives: ObjectiveProgress[] }
+  // Every objective on the floor is done; `time` is seconds spent on it
+  | { type: "levelComplete"; time: number }
+  // A versus round's clock ticked over a whole second; at 0 the round is up
+  | { type: "roundClock"; timeLeft: number }
+  // The 9-to-5 mode's office clock ticked over a minute (counted from 9 AM);
+  // at 5 PM it's time to clock out
+  | { type: "officeClock"; minutes: number };
+
+// Everything the simulation needs from one player's keys for a single tick.
+export interface TickInput {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  // True on the first tick after a press of the action key
+  action: boolean;
+  // Hotbar slot (1-based) whose item is thrown this tick, 0 for none; set on
+  // the first tick after a press of its number key
+  throwSlot: number;
+}
+
+// The 9-to-5 mode's workday
+export interface Workday {
+  // Seconds played since 9 AM
+  time: number;
+  // Where the executives on the current floor gather for the morning
+  // stand-up
+  standupSpot: Position;
+}
+
+export interface World {
+  // Seed the world was generated from; identical seeds give identical offices
+  seed: number;
+  // Layout the office was built from: a maze generator id, "rotate" or a
+  // curated level id
+  layout: string;
+  // Current PRNG state, advanced by every step that draws randomness
+  rngState: number;
+  maze: boolean[][];
+  // Everyone playing: just one player, or two in local co-op
+  players: PlayerState[];
+  executives: Executive[];
+  collectibles: Collectible[];
+  hidingSpots: HidingSpot[];
+  projectiles: Projectile[];
+  executiveDropTimer: number;
+  // Seniority level; drives executive speed and the floor's objectives
+  level: number;
+  objectives: ObjectiveProgress[];
+  // Seconds played on the current floor
+  floorTime: number;
+  // Seconds left in a versus round, across floors; unset outside versus
+  roundTimeLeft?: number;
+  // The 9-to-5 mode's workday, across floors; unset outside it
+  workday?: Workday;
+  // Events emitted by the most recent step
+  events: GameEvent[];
+}
+
+// The run as Game keeps it: score, lives and where play is at. The
+// simulation only reports what happened; networked guests get this as is.
+export interface GameState {
+  score: number;
+  // Damage each player has done, in world.players order; adds up to score
+  playerScores: number[];
+  // One pool of lives, or one per player when co-op players keep their own
+  lives: number[];
+  level: number;
+  isGameOver: boolean;
+  isPaused: boolean;
+  // Showing the level-complete summary; play resumes on the next floor
+  isLevelComplete: boolean;
+  // Longest combo of the run, in hits
+  bestCombo: number;
+}
+
+// A player's combo in progress, as last reported by the simulation
+export interface ComboState {
+  chain: number;
+  multiplier: number;
+}
+
+// What the level-complete summary reports about a cleared floor
+export interface FloorSummary {
+  objectives: ObjectiveProgress[];
+  // Seconds spent on the floor
+  time: number;
+}
@@ -0,0 +1,106 @@
+import { MAZE_HEIGHT, MAZE_WIDTH } from "./constants";
+import { Executive, Position } from "./types";
+
+// Angle between neighbouring rays of a vision cone
+const RAY_SPACING = Math.PI / 90; // 2 degrees
+
+// Executives see from, and are seen at, the centre of their anchor cell;
+// the same goes for the player.
+export const eyePosition = (position: Position): Position => ({
+  x: position.x + 0.5,
+  y: position.y + 0.5,
+});
+
+// Distance from `origin` along `angle` to the first wall cell (or the edge
+// of the maze), capped at `maxDistance`. Walks the grid cell by cell
+// (Amanatides & Woo), so thin diagonal gaps can't leak.
+export const castRay = (
+  maze: boolean[][],
+  origin: Position,
+  angle: number,
+  maxDistance: number
+): number => {
+  const dirX = Math.cos(angle);
+  const dirY = Math.sin(angle);
+  let cellX = Math.floor(origin.x);
+  let cellY = Math.floor(origin.y);
+  const stepX = dirX > 0 ? 1 : -1;
+  const stepY = dirY > 0 ? 1 : -1;
+  // Ray length needed to cross one whole cell along each axis
+  const deltaX = dirX === 0 ? Infinity : Math.abs(1 / dirX);
+  const deltaY = dirY === 0 ? Infinity : Math.abs(1 / dirY);
+  // Ray length to the first vertical / horizontal cell boundary
+  let nextX =
+    dirX === 0
+      ? Infinity
+      : (dirX > 0 ? cellX + 1 - origin.x : origin.x - cellX) * deltaX;
+  let nextY =
+    dirY === 0
+      ? Infinity
+      : (dirY > 0 ? cellY + 1 - origin.y : origin.y - cellY) * deltaY;
+
+  for (;;) {
+    let travelled: number;
+    if (nextX < nextY) {
+      travelled = nextX;
+      nextX += deltaX;
+      cellX += stepX;
+    } else {
+      travelled = nextY;
+      nextY += deltaY;
+      cellY += stepY;
+    }
+    if (travelled >= maxDistance) return maxDistance;
+    if (
+      cellX < 0 ||
+      cellX >= MAZE_WIDTH ||
+      cellY < 0 ||
+      cellY >= MAZE_HEIGHT ||
+      maze[cellY][cellX]
+    ) {
+      return travelled;
+    }
+  }
+};
+
+// The area an executive can actually see: their vision cone with every ray
+// stopped at the first wall. Returned as a polygon in grid units that
+// starts at the eye and fans across the cone. Rendering draws exactly this
+// shape and detection tests against it.
+export const visionPolygon = (
+  maze: boolean[][],
+  exec: Executive
+): Position[] => {
+  const eye = eyePosition(exec.position);
+  const { visionDistance, visionAngle } = exec.profile;
+  const halfAngle = (visionAngle * Math.PI) / 180;
+  const facing = Math.atan2(exec.direction.y, exec.direction.x);
+  const rays = Math.max(2, Math.ceil((2 * halfAngle) / RAY_SPACING) + 1);
+
+  const polygon = [eye];
+  for (let i = 0; i < rays; i++) {
+    const angle = facing - halfAngle + (2 * halfAngle * i) / (rays - 1);
+    const distance = castRay(maze, eye, angle, visionDistance);
+    polygon.push({
+      x: eye.x + Math.cos(angle) * distance,
+      y: eye.y + Math.sin(angle) * distance,
+    });
+  }
+  return polygon;
+};
+
+// Even-odd point-in-polygon test
+export const polygonContains = (polygon: Position[], point: Position) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { WORKDAY_LENGTH } from "./constants";
+import {
+  formatOfficeTime,
+  officeMinutes,
+  onTheClock,
+  WORKDAY_MINUTES,
+  WORKDAY_PHASES,
+  workdayPhase,
+} from "./workday";
+import { createWorld } from "./world";
+
+// A workday `minutes` office minutes in
+const at = (minutes: number) => ({
+  time: (minutes / WORKDAY_MINUTES) * WORKDAY_LENGTH,
+  standupSpot: { x: 20, y: 12 },
+});
+
+describe("officeMinutes", () => {
+  it("runs 9 to 5 over the length of the shift", () => {
+    expect(officeMinutes(0)).toBe(0);
+    expect(officeMinutes(WORKDAY_LENGTH / 2)).toBe(WORKDAY_MINUTES / 2);
+    expect(officeMinutes(WORKDAY_LENGTH)).toBe(WORKDAY_MINUTES);
+  });
+
+  it("stops the clock at 5 PM", () => {
+    expect(officeMinutes(WORKDAY_LENGTH * 2)).toBe(WORKDAY_MINUTES);
+  });
+});
+
+describe("workdayPhase", () => {
+  it("moves on at the start of each part of the day", () => {
+    expect(workdayPhase(0)).toBe("standup");
+    expect(workdayPhase(59)).toBe("standup");
+    expect(workdayPhase(60)).toBe("morning");
+    expect(workdayPhase(180)).toBe("lunch");
+    expect(workdayPhase(240)).toBe("afternoon");
+    expect(workdayPhase(419)).toBe("afternoon");
+    expect(workdayPhase(420)).toBe("crackdown");
+    expect(workdayPhase(WORKDAY_MINUTES)).toBe("crackdown");
+  });
+});
+
+describe("onTheClock", () => {
+  const [exec] = createWorld(1).executives;
+
+  it("leaves executives alone outside the 9-to-5 mode", () => {
+    expect(onTheClock(exec, undefined)).toBe(exec);
+  });
+
+  it("scales pace and sight by the time of day", () => {
+    const { lunch, crackdown } = WORKDAY_PHASES;
+    const lunching = onTheClock(exec, at(200)).profile;
+    expect(lunching.patrolSpeed).toBeCloseTo(
+      exec.profile.patrolSpeed * lunch.patrolPace
+    );
+    expect(lunching.chaseSpeed).toBeCloseTo(
+      exec.profile.chaseSpeed * lunch.chasePace
+    );
+    expect(lunching.visionDistance).toBeCloseTo(
+      exec.profile.visionDistance * lunch.sight
+    );
+
+    const cracking = onTheClock(exec, at(450)).profile;
+    expect(cracking.visionDistance).toBeCloseTo(
+      exec.profile.visionDistance * crackdown.sight
+    );
+    // The executive's own profile is left as it was
+    expect(exec.profile).toEqual(createWorld(1).executives[0].profile);
+  });
+});
+
+describe("formatOfficeTime", () => {
+  it("reads as a twelve-hour wall clock", () => {
+    expect(formatOfficeTime(0)).toBe("9:00 AM");
+    expect(formatOfficeTime(150)).toBe("11:30 AM");
+    expect(formatOfficeTime(210)).toBe("12:30 PM");
+    expect(formatOfficeTime(WORKDAY_MINUTES)).toBe("5:00 PM");
+  });
+});
@@ -0,0 +1,124 @@
+import { WORKDAY_LENGTH } from "./constants";
+import { Executive, Workday } from "./types";
+
+// The 9-to-5 mode's workday, 9 AM to 5 PM, squeezed into WORKDAY_LENGTH
+// seconds of play. Executives keep office hours: the time of day sets how
+// fast they move and how far they see.
+
+const START_HOUR = 9;
+
+// Office minutes from 9 AM to 5 PM
+export const WORKDAY_MINUTES = 8 * 60;
+
+export interface WorkdayPhaseDefinition {
+  // Shown next to the office clock
+  label: string;
+  // When the phase starts, in office minutes since 9 AM
+  from: number;
+  // Scale executives' patrol pace, their chase (and search and return) pace,
+  // and how far they see
+  patrolPace: number;
+  chasePace: number;
+  sight: number;
+  // Patrolling executives head for the stand-up spot and stay there
+  gather: boolean;
+}
+
+// The parts of the day, in order
+const definitions = {
+  // Everyone huddles in the middle of the office for the daily update
+  standup: {
+    label: "MORNING STAND-UP",
+    from: 0,
+    patrolPace: 1,
+    chasePace: 1,
+    sight: 1,
+    gather: true,
+  },
+  morning: {
+    label: "HEADS DOWN",
+    from: 60,
+    patrolPace: 1,
+    chasePace: 1,
+    sight: 1,
+    gather: false,
+  },
+  // Long lunches: slow rounds and eyes on the sandwich
+  lunch: {
+    label: "LUNCH LULL",
+    from: 180,
+    patrolPace: 0.4,
+    chasePace: 0.7,
+    sight: 0.6,
+    gather: false,
+  },
+  afternoon: {
+    label: "AFTERNOON GRIND",
+    from: 240,
+    patrolPace: 1,
+    chasePace: 1,
+    sight: 1,
+    gather: false,
+  },
+  // Somebody has to answer for the quarter before everyone goes home
+  crackdown: {
+    label: "END-OF-DAY CRACKDOWN",
+    from: 420,
+    patrolPace: 1.5,
+    chasePace: 1.15,
+    sight: 1.25,
+    gather: false,
+  },
+} satisfies Record<string, WorkdayPhaseDefinition>;
+
+export type WorkdayPhase = keyof typeof definitions;
+
+export const WORKDAY_PHASES: Record<WorkdayPhase, WorkdayPhaseDefinition> =
+  definitions;
+
+const PHASE_ORDER = Object.keys(WORKDAY_PHASES) as WorkdayPhase[];
+
+// Whole office minutes since 9 AM after `time` seconds of play
+export const officeMinutes = (time: number) =>
+  Math.min(
+    WORKDAY_MINUTES,
+    Math.floor((time / WORKDAY_LENGTH) * WORKDAY_MINUTES)
+  );
+
+// The part of the day an office time falls in
+export const workdayPhase = (minutes: number): WorkdayPhase =>
+  PHASE_ORDER.reduce((current, phase) =>
+    minutes >= WORKDAY_PHASES[phase].from ? phase : current
+  );
+
+// The part of the day a workday is in
+export const currentPhase = (workday: Workday) =>
+  WORKDAY_PHASES[workdayPhase(officeMinutes(workday.time))];
+
+// An executive as the time of day has them: the simulation moves them this
+// way and the renderer draws their vision cone this way. Outside the 9-to-5
+// mode (no workday) they're as they are.
+export const onTheClock = (
+  exec: Executive,
+  workday: Workday | undefined
+): Executive => {
+  if (!workday) return exec;
+  const { patrolPace, chasePace, sight } = currentPhase(workday);
+  const { profile } = exec;
+  return {
+    ...exec,
+    profile: {
+      ...profile,
+      patrolSpeed: profile.patrolSpeed * patrolPace,
+      chaseSpeed: profile.chaseSpeed * chasePace,
+      visionDistance: profile.visionDistance * sight,
+    },
+  };
+};
+
+// Office minutes since 9 AM as a wall clock, e.g. "12:30 PM"
+export const formatOfficeTime = (minutes: number) => {
+  const hour = START_HOUR + Math.floor(minutes / 60);
+  const minute = String(minutes % 60).padStart(2, "0");
+  return `${((hour + 11) % 12) + 1}:${minute} ${hour < 12 ? "AM" : "PM"}`;
+};
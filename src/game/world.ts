@@ -0,0 +1,444 @@
+import {
+  EXECUTIVE_DROP_INTERVAL,
+  MAZE_HEIGHT,
+  MAZE_WIDTH,
+  PLAYER_SPAWN_X,
+  PLAYER_SPAWN_Y,
+  SPRITE_BOTTOM_OFFSET,
+  SPRITE_LEFT_OFFSET,
+  SPRITE_RIGHT_OFFSET,
+  SPRITE_TOP_OFFSET,
+  VERSUS_ROUND_TIME,
+} from "./constants";
+import { COLLECTIBLE_TYPES, ITEM_TYPES, ItemType } from "./collectibles";
+import { DEFAULT_MAZE_GENERATOR, resolveMazeGenerator } from "./generators";
+import { HIDING_SPOT_KINDS, HIDING_SPOT_TYPES } from "./hidingSpots";
+import { buildOffice, CUSTOM_LAYOUT, LevelFile, Office } from "./level";
+import { findCuratedLevel } from "./levels";
+import {
+  canSpriteMoveTo,
+  canSpriteStand,
+  computeReachable,
+  generateMaze,
+  isPlayerSpawnArea,
+} from "./maze";
+import { generateObjectives, Objective, startObjectives } from "./objectives";
+import { EXECUTIVE_ROSTER } from "./personalities";
+import { createRng, Random } from "./random";
+import {
+  Collectible,
+  Executive,
+  HidingSpot,
+  PlayerState,
+  Position,
+  World,
+} from "./types";
+
+// Check whether two ~2.5x2.5 sprite boxes anchored at a and b overlap.
+export const spritesOverlap = (a: Position, b: Position) => {
+  const overlapX =
+    a.x - SPRITE_LEFT_OFFSET < b.x + SPRITE_RIGHT_OFFSET &&
+    a.x + SPRITE_RIGHT_OFFSET > b.x - SPRITE_LEFT_OFFSET;
+  const overlapY =
+    a.y - SPRITE_TOP_OFFSET < b.y + SPRITE_BOTTOM_OFFSET &&
+    a.y + SPRITE_BOTTOM_OFFSET > b.y - SPRITE_TOP_OFFSET;
+  return overlapX && overlapY;
+};
+
+// Static collectibles (not coins or pick-ups like coffee) block each other's
+// placement.
+export const blocksPlacement = (c: Collectible) =>
+  !c.collected &&
+  c.type !== "coin" &&
+  COLLECTIBLE_TYPES[c.type].blocksPlacement;
+
+export const createExecutives = (maze: boolean[][]): Executive[] => {
+  // Executives spawn with their whole sprite clear of walls and off the
+  // spawn row/column
+  const isWalkable = (x: number, y: number) => {
+    const minGridX = Math.max(0, Math.floor(x - SPRITE_LEFT_OFFSET));
+    const maxGridX = Math.min(
+      MAZE_WIDTH - 1,
+      Math.floor(x + SPRITE_RIGHT_OFFSET)
+    );
+    const minGridY = Math.max(0, Math.floor(y - SPRITE_TOP_OFFSET));
+    const maxGridY = Math.min(
+      MAZE_HEIGHT - 1,
+      Math.floor(y + SPRITE_BOTTOM_OFFSET)
+    );
+
+    for (let gy = minGridY; gy <= maxGridY; gy++) {
+      for (let gx = minGridX; gx <= maxGridX; gx++) {
+        if (maze[gy][gx] || isPlayerSpawnArea(gx, gy)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+
+  // Find safe positions in corners/edges for executives
+  const findSafePosition = (
+    preferredX: number,
+    preferredY: number
+  ): Position => {
+    // Try preferred position first
+    if (isWalkable(preferredX, preferredY)) {
+      return { x: preferredX, y: preferredY };
+    }
+
+    // Try nearby positions in a spiral pattern
+    for (let radius = 1; radius < 5; radius++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        for (let dy = -radius; dy <= radius; dy++) {
+          if (Math.abs(dx) === radius || Math.abs(dy) === radius) {
+            const x = preferredX + dx;
+            const y = preferredY + dy;
+            if (isWalkable(x, y)) {
+              return { x, y };
+            }
+          }
+        }
+      }
+    }
+
+    // Fallback: find any walkable position
+    for (let y = 1; y < MAZE_HEIGHT - 1; y++) {
+      for (let x = 1; x < MAZE_WIDTH - 1; x++) {
+        if (isWalkable(x, y)) {
+          return { x, y };
+        }
+      }
+    }
+
+    // Last resort: return preferred position (shouldn't happen)
+    return { x: preferredX, y: preferredY };
+  };
+
+  const corners = [
+    { x: 2, y: 2, direction: { x: 1, y: 0 } },
+    { x: MAZE_WIDTH - 3, y: 2, direction: { x: 0, y: 1 } },
+    { x: 2, y: MAZE_HEIGHT - 3, direction: { x: 0, y: -1 } },
+    { x: MAZE_WIDTH - 3, y: MAZE_HEIGHT - 3, direction: { x: -1, y: 0 } },
+  ];
+
+  return corners.map((corner, i) => ({
+    position: findSafePosition(corner.x, corner.y),
+    direction: corner.direction,
+    isScared: false,
+    scaredTimer: 0,
+    state: "patrol" as const,
+    stateTimer: 0,
+    suspicion: 0,
+    color: EXECUTIVE_ROSTER[i].color,
+    name: EXECUTIVE_ROSTER[i].name,
+    profile: EXECUTIVE_ROSTER[i].profile,
+  }));
+};
+
+export const createCollectibles = (
+  maze: boolean[][],
+  random: Random
+): Collectible[] => {
+  const items: Collectible[] = [];
+
+  // A static collectible sprite must be clear of walls AND must not overlap
+  // any existing non-coin collectibles.
+  const isWalkable = (x: number, y: number) => {
+    if (!canSpriteStand(maze, x, y)) return false;
+    return !items.some(
+      (other) =>
+        blocksPlacement(other) && spritesOverlap({ x, y }, other.position)
+    );
+  };
+
+  const scatter = (type: ItemType, count: number) => {
+    for (let i = 0; i < count; i++) {
+      let x, y;
+      do {
+        x = 2 + Math.floor(random() * (MAZE_WIDTH - 4));
+        y = 2 + Math.floor(random() * (MAZE_HEIGHT - 4));
+      } while (!isWalkable(x, y));
+
+      items.push({
+        position: { x, y },
+        type,
+        collected: false,
+      });
+    }
+  };
+
+  for (const type of ITEM_TYPES) {
+    scatter(type, COLLECTIBLE_TYPES[type].officeCount);
+  }
+
+  // Ensure every collectible is reachable from the centre with a 2.5x2.5 sprite.
+  // We do a BFS using the same collision box as the player/executives, ignoring
+  // collectibles themselves, then relocate any item that isn't on a reachable tile.
+  const reachable = computeReachable(maze);
+
+  // Relocate any unreachable collectible to a random reachable, walkable tile.
+  for (const item of items) {
+    const { x, y } = item.position;
+    if (
+      y < 0 ||
+      y >= MAZE_HEIGHT ||
+      x < 0 ||
+      x >= MAZE_WIDTH ||
+      !reachable[y][x]
+    ) {
+      // Try up to 100 random reachable positions
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const rx = 1 + Math.floor(random() * (MAZE_WIDTH - 2));
+        const ry = 1 + Math.floor(random() * (MAZE_HEIGHT - 2));
+        if (reachable[ry][rx] && isWalkable(rx, ry)) {
+          item.position = { x: rx, y: ry };
+          break;
+        }
+      }
+    }
+  }
+
+  return items;
+};
+
+// Scatter hiding spots on reachable floor, clear of the player spawn and of
+// each other and the office's static items.
+export const createHidingSpots = (
+  maze: boolean[][],
+  collectibles: Collectible[],
+  random: Random
+): HidingSpot[] => {
+  const spots: HidingSpot[] = [];
+  const reachable = computeReachable(maze);
+
+  const isFree = (x: number, y: number) =>
+    reachable[y][x] &&
+    canSpriteStand(maze, x, y) &&
+    !isPlayerSpawnArea(x, y) &&
+    !collectibles.some(
+      (c) => blocksPlacement(c) && spritesOverlap({ x, y }, c.position)
+    ) &&
+    !spots.some((spot) => spritesOverlap({ x, y }, spot.position));
+
+  for (const type of HIDING_SPOT_KINDS) {
+    for (let i = 0; i < HIDING_SPOT_TYPES[type].officeCount; i++) {
+      // Crowded offices just get fewer spots
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const x = 2 + Math.floor(random() * (MAZE_WIDTH - 4));
+        const y = 2 + Math.floor(random() * (MAZE_HEIGHT - 4));
+        if (isFree(x, y)) {
+          spots.push({ position: { x, y }, type });
+          break;
+        }
+      }
+    }
+  }
+
+  return spots;
+};
+
+// Offices only mark one player spawn. A co-op partner starts a couple of
+// cells away from it, or as close as the walls allow.
+const PARTNER_OFFSETS: Position[] = [
+  { x: 2, y: 0 },
+  { x: -2, y: 0 },
+  { x: 0, y: 2 },
+  { x: 0, y: -2 },
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+const partnerSpawn = (maze: boolean[][], spawn: Position): Position => {
+  const offset = PARTNER_OFFSETS.find(({ x, y }) =>
+    canSpriteMoveTo(maze, spawn.x + x, spawn.y + y)
+  );
+  return offset
+    ? { x: spawn.x + offset.x, y: spawn.y + offset.y }
+    : { ...spawn };
+};
+
+const createPlayer = (spawn: Position): PlayerState => ({
+  position: { ...spawn },
+  spawn,
+  direction: { x: 0, y: 0 },
+  effects: {},
+  invincibilityTimer: 0,
+  catchCooldown: 0,
+  hideTimer: 0,
+  hideCooldown: 0,
+  combo: 0,
+  comboTimer: 0,
+  inventory: [],
+});
+
+// Combine a laid-out office with fresh player and session state.
+const assembleWorld = (
+  seed: number,
+  rngState: number,
+  level: number,
+  layout: string,
+  office: Office,
+  objectives: Objective[],
+  players: number
+): World => ({
+  seed,
+  layout,
+  rngState,
+  maze: office.maze,
+  players: [
+    createPlayer(office.playerSpawn),
+    ...(players > 1
+      ? [createPlayer(partnerSpawn(office.maze, office.playerSpawn))]
+      : []),
+  ],
+  executives: office.executives,
+  collectibles: office.collectibles,
+  hidingSpots: office.hidingSpots,
+  projectiles: [],
+  executiveDropTimer: EXECUTIVE_DROP_INTERVAL,
+  level,
+  objectives: startObjectives(objectives, office.executives),
+  floorTime: 0,
+  events: [],
+});
+
+// Build a fresh world from a seed: new maze, executives in the corners,
+// scattered collectibles and hiding spots, and the player at the centre spawn
+// (with a partner beside them when `players` is 2). `layout` is a
+// maze generator id, ROTATE_BY_LEVEL or the id of a curated level, whose
+// hand-authored office is used as-is. A `custom` level (e.g. from the
+// editor) overrides the layout entirely.
+export const createWorld = (
+  seed: number,
+  level = 1,
+  layout = DEFAULT_MAZE_GENERATOR,
+  custom?: LevelFile,
+  players = 1
+): World => {
+  const rng = createRng(seed);
+  const handAuthored = custom ?? findCuratedLevel(layout);
+  if (handAuthored) {
+    const office = buildOffice(handAuthored);
+    return assembleWorld(
+      seed,
+      rng.state(),
+      level,
+      custom ? CUSTOM_LAYOUT : layout,
+      office,
+      handAuthored.objectives ?? generateObjectives(level, office.collectibles),
+      players
+    );
+  }
+
+  const maze = generateMaze(resolveMazeGenerator(layout, level), rng.next);
+  const collectibles = createCollectibles(maze, rng.next);
+  const hidingSpots = createHidingSpots(maze, collectibles, rng.next);
+  return assembleWorld(
+    seed,
+    rng.state(),
+    level,
+    layout,
+    {
+      maze,
+      playerSpawn: { x: PLAYER_SPAWN_X, y: PLAYER_SPAWN_Y },
+      executives: createExecutives(maze),
+      collectibles,
+      hidingSpots,
+    },
+    generateObjectives(level, collectibles),
+    players
+  );
+};
+
+// Seed for a run's floor at a given seniority level, so fresh floors are as
+// reproducible as the first one.
+const floorSeed = (seed: number, level: number) =>
+  (seed ^ Math.imul(level, 0x9e3779b1)) >>> 0;
+
+// Executive player two takes over in versus mode, when the office has them
+const VERSUS_PILOT = "Grumpy Greg";
+
+// Turn a world into a versus round: player two steers one executive (Grumpy
+// Greg, or the first one in offices without him) and the clock starts.
+export const startVersus = (
+  world: World,
+  roundTimeLeft = VERSUS_ROUND_TIME
+): World => {
+  const pilot = Math.max(
+    0,
+    world.executives.findIndex((exec) => exec.name === VERSUS_PILOT)
+  );
+  return {
+    ...world,
+    executives: world.executives.map((exec, i) =>
+      i === pilot ? { ...exec, piloted: true } : exec
+    ),
+    roundTimeLeft,
+  };
+};
+
+// Start the 9-to-5 mode's workday (or carry one over to a new floor). The
+// executives' morning stand-up is at the open spot nearest the middle of the
+// office that players can reach, clear of their spawn.
+export const startWorkday = (world: World, time = 0): World => {
+  const reachable = computeReachable(world.maze, world.players[0].spawn);
+  const middle = { x: MAZE_WIDTH / 2, y: MAZE_HEIGHT / 2 };
+  let standupSpot = world.players[0].spawn;
+  let best = Infinity;
+  for (let y = 0; y < MAZE_HEIGHT; y++) {
+    for (let x = 0; x < MAZE_WIDTH; x++) {
+      if (!reachable[y][x] || isPlayerSpawnArea(x, y)) continue;
+      const distance = Math.hypot(x - middle.x, y - middle.y);
+      if (distance < best) {
+        best = distance;
+        standupSpot = { x, y };
+      }
+    }
+  }
+  return { ...world, workday: { time, standupSpot } };
+};
+
+// Move a run onto a fresh floor for a new seniority level: a new office in
+// the same layout with everyone respawned. The session seed is kept, and so
+// are a versus round's clock and the 9-to-5 workday.
+export const advanceToFloor = (
+  world: World,
+  level: number,
+  custom?: LevelFile
+): World => {
+  const floor = {
+    ...createWorld(
+      floorSeed(world.seed, level),
+      level,
+      world.layout,
+      custom,
+      world.players.length
+    ),
+    seed: world.seed,
+  };
+  const round =
+    world.roundTimeLeft === undefined
+      ? floor
+      : startVersus(floor, world.roundTimeLeft);
+  return world.workday ? startWorkday(round, world.workday.time) : round;
+};
+
+// Promote a run to a new seniority level on its current floor: executives
+// speed up and the level's objectives start from scratch.
+export const promoteOnFloor = (
+  world: World,
+  level: number,
+  custom?: LevelFile
+): World => ({
+  ...world,
+  level,
+  objectives: startObjectives(
+    (custom ?? findCuratedLevel(world.layout))?.objectives ??
+      generateObjectives(level, world.collectibles),
+    world.executives
+  ),
+  floorTime: 0,
+});
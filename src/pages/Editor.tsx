@@ -0,0 +1,7 @@
+import { LevelEditor } from "@/components/LevelEditor";
+
+const Editor = () => {
+  return <LevelEditor />;
+};
+
+export default Editor;
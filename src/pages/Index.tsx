@@ -1,7 +1,12 @@
+import { useLocation } from "react-router-dom";
 import { Game } from "@/components/Game";
+import { LevelFile } from "@/game/level";
 
 const Index = () => {
-  return <Game />;
+  // The level editor hands its level over through router state
+  const location = useLocation();
+  const customLevel = (location.state as { level?: LevelFile } | null)?.level;
+  return <Game customLevel={customLevel ?? null} />;
 };
 
 export default Index;
@@ -0,0 +1,7 @@
+import { NetLobby } from "@/components/NetLobby";
+
+const Lobby = () => {
+  return <NetLobby />;
+};
+
+export default Lobby;
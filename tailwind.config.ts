@@ -83,10 +83,19 @@ export default {
             height: "0",
           },
         },
+        "combo-decay": {
+          from: {
+            width: "100%",
+          },
+          to: {
+            width: "0",
+          },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
+        "combo-decay": "combo-decay 1s linear forwards",
       },
     },
   },